@@ -8,6 +8,7 @@ const globals = {
   'apollo-link': 'apolloLink.core',
   'apollo-link-error': 'apolloLink.error',
   'apollo-utilities': 'apollo.utilities',
+  'graphql/language': 'graphql',
   'graphql-anywhere': 'graphqlAnywhere',
   'graphql-anywhere/lib/async': 'graphqlAnywhere.async',
 };
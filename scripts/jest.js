@@ -1 +1,2 @@
 global.fetch = require('jest-fetch-mock');
+global.TextDecoder = global.TextDecoder || require('util').TextDecoder;
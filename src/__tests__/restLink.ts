@@ -3,6 +3,7 @@ import { ApolloClient } from 'apollo-client';
 import { InMemoryCache } from 'apollo-cache-inmemory';
 import { onError } from 'apollo-link-error';
 
+import { buildSchema } from 'graphql';
 import gql, { disableFragmentWarnings } from 'graphql-tag';
 disableFragmentWarnings();
 
@@ -14,6 +15,7 @@ import {
   RestLink,
   validateRequestMethodForOperationType,
   normalizeHeaders,
+  buildQueryString,
 } from '../restLink';
 
 const sampleQuery = gql`
@@ -283,8 +285,170 @@ describe('Configuration', async () => {
       expect(data.post.title).toBe('custom');
     });
   });
+
+  describe('Interceptors', () => {
+    afterEach(() => {
+      fetchMock.restore();
+    });
+
+    const postTitle = gql`
+      query postTitle {
+        post @rest(type: "Post", path: "/post/1") {
+          title
+        }
+      }
+    `;
+
+    it('lets request interceptors rewrite requests', async () => {
+      expect.assertions(4);
+
+      const seen = [];
+      const link = new RestLink({
+        uri: '/api',
+        requestInterceptors: [
+          (request, directiveOptions) => {
+            seen.push(directiveOptions.type);
+            return { ...request, url: `${request.url}?signed=1` };
+          },
+          async request => {
+            seen.push(request.url);
+            request.headers.set('X-Signature', 'abc');
+            return request;
+          },
+        ],
+      });
+      fetchMock.get('/api/post/1?signed=1', { title: 'signed' });
+
+      const { data } = await makePromise<Result>(
+        execute(link, { operationName: 'postTitle', query: postTitle }),
+      );
+
+      expect(data.post.title).toBe('signed');
+      expect(seen).toEqual(['Post', '/api/post/1?signed=1']);
+      const requestCall = fetchMock.lastCall();
+      expect(requestCall[1].method).toBe('GET');
+      expect(requestCall[1].headers.get('X-Signature')).toBe('abc');
+    });
+
+    it('lets request interceptors short-circuit with a response', async () => {
+      expect.assertions(3);
+
+      const nextInterceptor = jest.fn(request => request);
+      const link = new RestLink({
+        uri: '/api',
+        requestInterceptors: [
+          () => new Response(JSON.stringify({ title: 'synthetic' })),
+          nextInterceptor,
+        ],
+      });
+      fetchMock.get('/api/post/1', { title: 'network' });
+
+      const { data } = await makePromise<Result>(
+        execute(link, { operationName: 'postTitle', query: postTitle }),
+      );
+
+      expect(data.post.title).toBe('synthetic');
+      expect(nextInterceptor).not.toHaveBeenCalled();
+      expect(fetchMock.called('/api/post/1')).toBe(false);
+    });
+
+    it('lets response interceptors replace responses', async () => {
+      expect.assertions(2);
+
+      const link = new RestLink({
+        uri: '/api',
+        responseInterceptors: [
+          async (response, request) => {
+            expect(request.url).toBe('/api/post/1');
+            const { data } = await response.json();
+            return new Response(JSON.stringify(data));
+          },
+        ],
+      });
+      fetchMock.get('/api/post/1', { data: { title: 'unwrapped' } });
+
+      const { data } = await makePromise<Result>(
+        execute(link, { operationName: 'postTitle', query: postTitle }),
+      );
+
+      expect(data.post.title).toBe('unwrapped');
+    });
+  });
+
+  describe('Response transformer', () => {
+    afterEach(() => {
+      fetchMock.restore();
+    });
+
+    it('unwraps envelopes with the link-level responseTransformer', async () => {
+      expect.assertions(2);
+
+      const link = new RestLink({
+        uri: '/api',
+        fieldNameNormalizer: camelCase,
+        responseTransformer: async (data, response) => {
+          expect(response.status).toBe(200);
+          return data.results;
+        },
+      });
+      fetchMock.get('/api/posts', {
+        results: [{ post_title: 'first' }],
+        meta: { total: 1 },
+      });
+
+      const postsQuery = gql`
+        query posts {
+          posts @rest(type: "[Post]", path: "/posts") {
+            postTitle
+            content
+          }
+        }
+      `;
+
+      const { data } = await makePromise<Result>(
+        execute(link, { operationName: 'posts', query: postsQuery }),
+      );
+
+      expect(data.posts).toEqual([
+        { __typename: 'Post', postTitle: 'first', content: null },
+      ]);
+    });
+
+    it('prefers the request-level responseTransformer', async () => {
+      expect.assertions(1);
+
+      const link = new RestLink({
+        uri: '/api',
+        responseTransformer: data => data.results,
+      });
+      fetchMock.get('/api/post/1', { data: { title: 'Love apollo' } });
+
+      const postQuery = gql`
+        query post($unwrap: any) {
+          post
+            @rest(type: "Post", path: "/post/1", responseTransformer: $unwrap) {
+            title
+          }
+        }
+      `;
+
+      const { data } = await makePromise<Result>(
+        execute(link, {
+          operationName: 'post',
+          query: postQuery,
+          variables: { unwrap: (data: any) => data.data },
+        }),
+      );
+
+      expect(data.post.title).toBe('Love apollo');
+    });
+  });
 });
 describe('Complex responses need nested __typename insertions', () => {
+  afterEach(() => {
+    fetchMock.restore();
+  });
+
   it('can configure typename by providing a custom type-patcher table', async () => {
     expect.assertions(1);
 
@@ -468,6 +632,132 @@ describe('Complex responses need nested __typename insertions', () => {
       outer: rootTyped,
     });
   });
+
+  const outerSchema = `
+    type Outer {
+      id: ID!
+      inner1: Inner1
+      nestedArrays: NestedArrays
+      media: [Media]
+    }
+    type Inner1 {
+      data: String
+      reused: Reused
+    }
+    type Reused {
+      id: ID
+    }
+    type NestedArrays {
+      unrelatedArray: [String]
+      singlyArray: [SinglyNestedArrayEntry!]!
+      doublyNestedArray: [[DoublyNestedArrayEntry]]
+    }
+    type SinglyNestedArrayEntry {
+      data: String
+    }
+    type DoublyNestedArrayEntry {
+      data: String
+    }
+    interface Media {
+      url: String
+      owner: Reused
+    }
+    type Photo implements Media {
+      url: String
+      owner: Reused
+    }
+  `;
+  const outer = {
+    id: '1',
+    inner1: { data: 'outer.inner1', reused: { id: 1 } },
+    nestedArrays: {
+      unrelatedArray: ['string', 10],
+      singlyArray: [{ data: 'entry!' }],
+      doublyNestedArray: [[{ data: 'inception.entry!' }]],
+    },
+    media: [{ __typename: 'Photo', url: '/1.jpg', owner: { id: 3 } }],
+  };
+  const outerTyped = {
+    __typename: 'Outer',
+    id: '1',
+    inner1: {
+      __typename: 'Inner1',
+      data: 'outer.inner1',
+      reused: { __typename: 'Reused', id: 1 },
+    },
+    nestedArrays: {
+      __typename: 'NestedArrays',
+      unrelatedArray: ['string', 10],
+      singlyArray: [{ __typename: 'SinglyNestedArrayEntry', data: 'entry!' }],
+      doublyNestedArray: [
+        [{ __typename: 'DoublyNestedArrayEntry', data: 'inception.entry!' }],
+      ],
+    },
+    media: [
+      {
+        __typename: 'Photo',
+        url: '/1.jpg',
+        owner: { __typename: 'Reused', id: 3 },
+      },
+    ],
+  };
+  const outerQuery = gql`
+    query outerQuery {
+      outer @rest(type: "Outer", path: "/outer/1") {
+        id
+        inner1 {
+          data
+          reused {
+            id
+          }
+        }
+        nestedArrays {
+          unrelatedArray
+          singlyArray {
+            data
+          }
+          doublyNestedArray {
+            data
+          }
+        }
+        media {
+          url
+          owner {
+            id
+          }
+        }
+      }
+    }
+  `;
+
+  it('can patch nested types from an SDL schema', async () => {
+    expect.assertions(1);
+
+    const link = new RestLink({ uri: '/api', schema: outerSchema });
+    fetchMock.get('/api/outer/1', outer);
+
+    const { data } = await makePromise<Result>(
+      execute(link, { operationName: 'outerQuery', query: outerQuery }),
+    );
+
+    expect(data.outer).toEqual(outerTyped);
+  });
+
+  it('can patch nested types from a GraphQLSchema', async () => {
+    expect.assertions(1);
+
+    const link = new RestLink({
+      uri: '/api',
+      schema: buildSchema(`${outerSchema} type Query { outer: Outer }`),
+    });
+    fetchMock.get('/api/outer/1', outer);
+
+    const { data } = await makePromise<Result>(
+      execute(link, { operationName: 'outerQuery', query: outerQuery }),
+    );
+
+    expect(data.outer).toEqual(outerTyped);
+  });
 });
 
 describe('Query single call', () => {
@@ -748,6 +1038,130 @@ describe('Query single call', () => {
     expect(data.people.name).toBe(person.name);
   });
 
+  it('encodes params & replaces every occurrence of them', async () => {
+    expect.assertions(1);
+
+    const link = new RestLink({ uri: '/api' });
+    fetchMock.get('begin:/api/', {});
+
+    const searchQuery = gql`
+      query search {
+        search(id: $id, idType: $idType)
+          @rest(
+            type: "Result"
+            path: "/:idType/:id/{id}?q=:id&at=/time/12:00"
+          ) {
+          id
+        }
+      }
+    `;
+
+    await makePromise<Result>(
+      execute(link, {
+        operationName: 'search',
+        query: searchQuery,
+        variables: { id: 'a b/c', idType: 'slug' },
+      }),
+    );
+
+    expect(fetchMock.lastUrl()).toBe(
+      '/api/slug/a%20b%2Fc/a%20b%2Fc?q=a%20b%2Fc&at=/time/12:00',
+    );
+  });
+
+  it('drops optional path segments without a value', async () => {
+    expect.assertions(2);
+
+    const link = new RestLink({ uri: '/api' });
+    fetchMock.get('begin:/api/', []);
+
+    const postsQuery = gql`
+      query posts {
+        posts(page: $page)
+          @rest(type: "[Post]", path: "/posts/{page?}?sort=desc") {
+          id
+        }
+      }
+    `;
+
+    await makePromise<Result>(
+      execute(link, { operationName: 'posts', query: postsQuery }),
+    );
+    expect(fetchMock.lastUrl()).toBe('/api/posts?sort=desc');
+
+    await makePromise<Result>(
+      execute(link, {
+        operationName: 'posts',
+        query: postsQuery,
+        variables: { page: 2 },
+      }),
+    );
+    expect(fetchMock.lastUrl()).toBe('/api/posts/2?sort=desc');
+  });
+
+  it('treats null params as missing', async () => {
+    expect.assertions(2);
+
+    const link = new RestLink({ uri: '/api' });
+    fetchMock.get('begin:/api/', []);
+
+    const postsQuery = gql`
+      query posts {
+        posts(userId: $userId, page: $page)
+          @rest(type: "[Post]", path: "/users/:userId/posts/{page?}") {
+          id
+        }
+      }
+    `;
+
+    await makePromise<Result>(
+      execute(link, {
+        operationName: 'posts',
+        query: postsQuery,
+        variables: { userId: 1, page: null },
+      }),
+    );
+    expect(fetchMock.lastUrl()).toBe('/api/users/1/posts');
+
+    try {
+      await makePromise<Result>(
+        execute(link, {
+          operationName: 'posts',
+          query: postsQuery,
+          variables: { userId: null, page: 2 },
+        }),
+      );
+    } catch (error) {
+      expect(error.message).toBe(
+        'Missing params to run query, specify it in the query params or use an export directive: :userId',
+      );
+    }
+  });
+
+  it('lists every unresolved param', async () => {
+    expect.assertions(1);
+
+    const link = new RestLink({ uri: '/api' });
+
+    const postQuery = gql`
+      query post {
+        post @rest(type: "Post", path: "/users/{userId}/posts/:postId") {
+          id
+        }
+      }
+    `;
+
+    try {
+      await makePromise<Result>(
+        execute(link, { operationName: 'post', query: postQuery }),
+      );
+    } catch (error) {
+      expect(error.message).toBe(
+        'Missing params to run query, specify it in the query params or use an export directive: {userId}, :postId',
+      );
+    }
+  });
+
   it('can hit two endpoints!', async () => {
     expect.assertions(2);
 
@@ -1190,12 +1604,69 @@ describe('Query options', () => {
         );
       } catch (error) {
         expect(error.message).toBe(
-          'A "query" operation can only support "GET" requests but got "POST".',
+          'A "query" operation can only support "GET", "HEAD" or "OPTIONS" requests but got "POST".',
         );
       }
 
       expect(fetchMock.called('/api/post/1')).toBe(false);
     });
+
+    it('supports HEAD requests', async () => {
+      expect.assertions(2);
+
+      const link = new RestLink({ uri: '/api' });
+      fetchMock.head('/api/post/1', {
+        status: 200,
+        headers: { 'Content-Length': '0' },
+      });
+
+      const postExistsQuery = gql`
+        query postExists {
+          post @rest(type: "Post", path: "/post/1", method: "HEAD") {
+            id
+          }
+        }
+      `;
+
+      const { data } = await makePromise<Result>(
+        execute(link, { operationName: 'postExists', query: postExistsQuery }),
+      );
+
+      expect(data.post).toBeNull();
+      expect(fetchMock.called('/api/post/1')).toBe(true);
+    });
+
+    it('sends a body with POST queries when allowed', async () => {
+      expect.assertions(2);
+
+      const link = new RestLink({
+        uri: '/api',
+        allowedMethods: { query: ['GET', 'POST'] },
+      });
+      fetchMock.post('/api/search', [{ id: '1' }]);
+
+      const searchQuery = gql`
+        query search($input: SearchInput!) {
+          results(input: $input)
+            @rest(type: "[Post]", path: "/search", method: "POST") {
+            id
+          }
+        }
+      `;
+
+      const { data } = await makePromise<Result>(
+        execute(link, {
+          operationName: 'search',
+          query: searchQuery,
+          variables: { input: { match: { title: 'apollo' } } },
+        }),
+      );
+
+      expect(data.results).toEqual([{ __typename: 'Post', id: '1' }]);
+      expect(fetchMock.lastCall('/api/search')[1].body).toBe(
+        JSON.stringify({ match: { title: 'apollo' } }),
+      );
+    });
   });
 
   /** Helper for extracting a simple object of headers from the HTTP-fetch Headers class */
@@ -1472,14 +1943,311 @@ describe('Query options', () => {
         'authorization: context',
       ]);
     });
-  });
-});
 
-describe('Mutation', () => {
-  describe('basic support', () => {
-    afterEach(() => {
-      fetchMock.restore();
-    });
+    it('sends per-directive headers, interpolating variables & exports', async () => {
+      expect.assertions(2);
+
+      const link = new RestLink({
+        uri: '/api',
+        headers: { Accept: 'application/json', 'X-App': 'blog' },
+      });
+      fetchMock.get('/api/post/1', { id: '1', authorId: 7 });
+      fetchMock.get('/api/authors/7', { name: 'Ada' });
+
+      const postQuery = gql`
+        query post($tenantId: String) {
+          post
+            @rest(
+              type: "Post"
+              path: "/post/1"
+              headers: ["X-Tenant: $tenantId"]
+            ) {
+            authorId @export(as: "authorId")
+            author
+              @rest(
+                type: "Author"
+                path: "/authors/:authorId"
+                headers: {
+                  Accept: "application/vnd.author+json"
+                  Authorization: "Author $authorId"
+                }
+              ) {
+              name
+            }
+          }
+        }
+      `;
+
+      await makePromise<Result>(
+        execute(link, {
+          operationName: 'post',
+          query: postQuery,
+          variables: { tenantId: 'acme' },
+        }),
+      );
+
+      expect(
+        orderDupPreservingFlattenedHeaders(
+          fetchMock.lastCall('/api/post/1')[1],
+        ),
+      ).toEqual(['accept: application/json', 'x-app: blog', 'x-tenant: acme']);
+      expect(
+        orderDupPreservingFlattenedHeaders(
+          fetchMock.lastCall('/api/authors/7')[1],
+        ),
+      ).toEqual([
+        'x-app: blog',
+        'accept: application/vnd.author+json',
+        'authorization: Author 7',
+      ]);
+    });
+
+    it('leaves out per-directive headers referencing missing values', async () => {
+      expect.assertions(1);
+
+      const link = new RestLink({ uri: '/api' });
+      fetchMock.get('/api/post/1', { id: '1' });
+
+      const postQuery = gql`
+        query post {
+          post
+            @rest(
+              type: "Post"
+              path: "/post/1"
+              headers: ["Authorization: Bearer $token", "X-Static: yes"]
+            ) {
+            id
+          }
+        }
+      `;
+
+      await makePromise<Result>(
+        execute(link, { operationName: 'post', query: postQuery }),
+      );
+
+      expect(
+        orderDupPreservingFlattenedHeaders(
+          fetchMock.lastCall('/api/post/1')[1],
+        ),
+      ).toEqual(['x-static: yes']);
+    });
+  });
+
+  describe('queryParams', () => {
+    it('serializes queryParams into the query string', async () => {
+      expect.assertions(1);
+
+      const link = new RestLink({ uri: '/api' });
+      fetchMock.get('begin:/api/posts', []);
+
+      const postsQuery = gql`
+        query posts($search: String, $tags: [String]) {
+          posts
+            @rest(
+              type: "[Post]"
+              path: "/posts"
+              queryParams: {
+                search: $search
+                tags: $tags
+                filter: { author: "Joe & Ann", draft: false }
+                page: null
+              }
+            ) {
+            id
+          }
+        }
+      `;
+
+      await makePromise<Result>(
+        execute(link, {
+          operationName: 'posts',
+          query: postsQuery,
+          variables: { search: 'apollo rest', tags: ['a', 'b'] },
+        }),
+      );
+
+      expect(fetchMock.lastUrl()).toBe(
+        '/api/posts?search=apollo%20rest&tags=a&tags=b' +
+          '&filter[author]=Joe%20%26%20Ann&filter[draft]=false',
+      );
+    });
+
+    it('appends to paths that already have a query string', async () => {
+      expect.assertions(1);
+
+      const link = new RestLink({ uri: '/api' });
+      fetchMock.get('begin:/api/posts', []);
+
+      const postsQuery = gql`
+        query posts {
+          posts
+            @rest(
+              type: "[Post]"
+              path: "/posts?sort=desc"
+              queryParams: { ids: [1, 2] }
+              queryParamsArrayFormat: "comma"
+            ) {
+            id
+          }
+        }
+      `;
+
+      await makePromise<Result>(
+        execute(link, { operationName: 'posts', query: postsQuery }),
+      );
+
+      expect(fetchMock.lastUrl()).toBe('/api/posts?sort=desc&ids=1,2');
+    });
+
+    it('denormalizes the keys', async () => {
+      expect.assertions(1);
+
+      const link = new RestLink({
+        uri: '/api',
+        fieldNameDenormalizer: snake_case,
+      });
+      fetchMock.get('begin:/api/posts', []);
+
+      const postsQuery = gql`
+        query posts {
+          posts
+            @rest(
+              type: "[Post]"
+              path: "/posts"
+              queryParams: { perPage: 10, filter: { authorId: 1 } }
+            ) {
+            id
+          }
+        }
+      `;
+
+      await makePromise<Result>(
+        execute(link, { operationName: 'posts', query: postsQuery }),
+      );
+
+      expect(fetchMock.lastUrl()).toBe(
+        '/api/posts?per_page=10&filter[author_id]=1',
+      );
+    });
+
+    it('supports every array format', () => {
+      expect.assertions(4);
+      const params = { a: [1, null, 2], b: [{ c: 1 }, { c: 2 }] };
+
+      expect(buildQueryString(params)).toBe('a=1&a=2&b[0][c]=1&b[1][c]=2');
+      expect(buildQueryString(params, 'brackets')).toBe(
+        'a[]=1&a[]=2&b[0][c]=1&b[1][c]=2',
+      );
+      expect(buildQueryString(params, 'comma')).toBe(
+        'a=1,2&b[0][c]=1&b[1][c]=2',
+      );
+      expect(buildQueryString({ a: [], b: undefined })).toBe('');
+    });
+  });
+
+  describe('response bodies', () => {
+    it('parses text/* responses as text', async () => {
+      expect.assertions(1);
+
+      const link = new RestLink({ uri: '/api' });
+      fetchMock.get('/api/health', {
+        headers: { 'Content-Type': 'text/plain; charset=utf-8' },
+        body: 'OK',
+      });
+
+      const healthQuery = gql`
+        query health {
+          health @rest(type: "String", path: "/health")
+        }
+      `;
+
+      const { data } = await makePromise<Result>(
+        execute(link, { operationName: 'health', query: healthQuery }),
+      );
+
+      expect(data.health).toBe('OK');
+    });
+
+    it('reads responses of other types as text', async () => {
+      expect.assertions(1);
+
+      const link = new RestLink({ uri: '/api' });
+      fetchMock.get('/api/feed', {
+        headers: { 'Content-Type': 'application/xml' },
+        body: '<feed />',
+      });
+
+      const feedQuery = gql`
+        query feed {
+          feed @rest(type: "String", path: "/feed")
+        }
+      `;
+
+      const { data } = await makePromise<Result>(
+        execute(link, { operationName: 'feed', query: feedQuery }),
+      );
+
+      expect(data.feed).toBe('<feed />');
+    });
+
+    it('parses +json responses as JSON', async () => {
+      expect.assertions(1);
+
+      const link = new RestLink({ uri: '/api' });
+      fetchMock.get('/api/post/1', {
+        headers: { 'Content-Type': 'application/hal+json' },
+        body: JSON.stringify({ title: 'Love apollo' }),
+      });
+
+      const { data } = await makePromise<Result>(
+        execute(link, { operationName: 'post', query: sampleQuery }),
+      );
+
+      expect(data.post).toEqual({ __typename: 'Post', id: null });
+    });
+
+    it('resolves empty responses to null', async () => {
+      expect.assertions(1);
+
+      const link = new RestLink({ uri: '/api' });
+      fetchMock.get('/api/post/1', { status: 200, body: '' });
+
+      const { data } = await makePromise<Result>(
+        execute(link, { operationName: 'post', query: sampleQuery }),
+      );
+
+      expect(data.post).toBeNull();
+    });
+
+    it('respects the responseType', async () => {
+      expect.assertions(1);
+
+      const link = new RestLink({ uri: '/api' });
+      fetchMock.get('/api/export.csv', {
+        headers: { 'Content-Type': 'application/json' },
+        body: 'id,title\n1,Love apollo',
+      });
+
+      const exportQuery = gql`
+        query postsExport {
+          csv @rest(type: "String", path: "/export.csv", responseType: "text")
+        }
+      `;
+
+      const { data } = await makePromise<Result>(
+        execute(link, { operationName: 'postsExport', query: exportQuery }),
+      );
+
+      expect(data.csv).toBe('id,title\n1,Love apollo');
+    });
+  });
+});
+
+describe('Mutation', () => {
+  describe('basic support', () => {
+    afterEach(() => {
+      fetchMock.restore();
+    });
     it('supports POST requests', async () => {
       expect.assertions(2);
 
@@ -1625,6 +2393,33 @@ describe('Mutation', () => {
         expect.objectContaining({ method: 'DELETE' }),
       );
     });
+
+    it('supports DELETE requests with an empty 204 response', async () => {
+      expect.assertions(2);
+
+      const link = new RestLink({ uri: '/api' });
+      fetchMock.delete('/api/posts/1', 204);
+
+      const deletePostMutation = gql`
+        mutation deletePost($id: ID!) {
+          deletePost(id: $id)
+            @rest(type: "Post", path: "/posts/:id", method: "DELETE") {
+            NoResponse
+          }
+        }
+      `;
+
+      const { data } = await makePromise<Result>(
+        execute(link, {
+          operationName: 'deletePost',
+          query: deletePostMutation,
+          variables: { id: 1 },
+        }),
+      );
+
+      expect(data.deletePost).toBeNull();
+      expect(fetchMock.called('/api/posts/1')).toBe(true);
+    });
   });
 
   describe('fieldNameDenormalizer', () => {
@@ -1902,74 +2697,479 @@ describe('Mutation', () => {
       );
     });
   });
-});
 
-describe('validateRequestMethodForOperationType', () => {
-  describe('for operation type "mutation"', () => {
-    it('throws because it is not supported yet', () => {
-      expect.assertions(2);
-      expect(() =>
-        validateRequestMethodForOperationType('GET', 'mutation'),
-      ).toThrowError('"mutation" operations do not support that HTTP-verb');
-      expect(() =>
-        validateRequestMethodForOperationType('GIBBERISH', 'mutation'),
-      ).toThrowError('"mutation" operations do not support that HTTP-verb');
-    });
-  });
-  describe('for operation type "subscription"', () => {
-    it('throws because it is not supported yet', () => {
-      expect.assertions(1);
-      expect(() =>
-        validateRequestMethodForOperationType('GET', 'subscription'),
-      ).toThrowError('A "subscription" operation is not supported yet.');
+  describe('bodySerializer', () => {
+    afterEach(() => {
+      fetchMock.restore();
     });
-  });
-});
-
-describe('export directive', () => {
-  afterEach(() => {
-    fetchMock.restore();
-  });
-  it('should throw an error if export is missing', async () => {
-    expect.assertions(1);
-
-    const link = new RestLink({ uri: '/api' });
-
-    const post = { id: '1', title: 'Love apollo', tagId: 6 };
-    fetchMock.get('/api/post/1', post);
 
-    const postTagWithoutExport = gql`
-      query postTitle {
-        post(id: "1") @rest(type: "Post", path: "/post/:id") {
-          tagId
-          title
-          tag @rest(type: "Tag", path: "/tag/:tagId") {
-            name
-          }
+    const createPost = (bodySerializer = null) => gql`
+      mutation publishPost($input: PublishablePostInput!) {
+        publishedPost(input: $input)
+          @rest(type: "Post", path: "/posts", method: "POST"${bodySerializer
+            ? `, bodySerializer: "${bodySerializer}"`
+            : ''}) {
+          id
         }
       }
     `;
 
-    try {
+    it('sends JSON with a Content-Type by default', async () => {
+      expect.assertions(2);
+
+      const link = new RestLink({ uri: '/api' });
+      fetchMock.post('/api/posts', { id: 1 });
+
       await makePromise<Result>(
         execute(link, {
-          operationName: 'postTitle',
-          query: postTagWithoutExport,
-          variables: { id: '1' },
+          operationName: 'publishPost',
+          query: createPost(),
+          variables: { input: { title: 'Love apollo', published: true } },
         }),
       );
-    } catch (e) {
-      expect(e.message).toBe(
-        'Missing params to run query, specify it in the query params or use an export directive',
+
+      const requestCall = fetchMock.lastCall();
+      expect(requestCall[1].body).toBe(
+        JSON.stringify({ title: 'Love apollo', published: true }),
       );
-    }
-  });
-  it('can use a variable from export', async () => {
-    expect.assertions(1);
+      expect(requestCall[1].headers.get('Content-Type')).toBe(
+        'application/json',
+      );
+    });
 
-    const link = new RestLink({ uri: '/api' });
+    it('supports form-urlencoded bodies', async () => {
+      expect.assertions(2);
 
-    const post = { id: '1', title: 'Love apollo', tagId: 6 };
+      const link = new RestLink({
+        uri: '/api',
+        fieldNameDenormalizer: snake_case,
+      });
+      fetchMock.post('/api/posts', { id: 1 });
+
+      await makePromise<Result>(
+        execute(link, {
+          operationName: 'publishPost',
+          query: createPost('form'),
+          variables: { input: { postTitle: 'Love & apollo', tags: ['a'] } },
+        }),
+      );
+
+      const requestCall = fetchMock.lastCall();
+      expect(requestCall[1].body).toBe('post_title=Love%20%26%20apollo&tags=a');
+      expect(requestCall[1].headers.get('Content-Type')).toBe(
+        'application/x-www-form-urlencoded',
+      );
+    });
+
+    it('supports multipart bodies with files', async () => {
+      expect.assertions(4);
+
+      const link = new RestLink({
+        uri: '/api',
+        headers: { 'Content-Type': 'application/json' },
+      });
+      fetchMock.post('/api/posts', { id: 1 });
+
+      const file = new Blob(['Love apollo'], { type: 'text/plain' });
+      await makePromise<Result>(
+        execute(link, {
+          operationName: 'publishPost',
+          query: createPost('multipart'),
+          variables: {
+            input: { title: 'Love apollo', attachment: file, tags: ['a', 'b'] },
+          },
+        }),
+      );
+
+      const { body, headers } = fetchMock.lastCall()[1];
+      expect(body).toBeInstanceOf(FormData);
+      expect(body.get('title')).toBe('Love apollo');
+      expect(body.getAll('tags')).toEqual(['a', 'b']);
+      expect(headers.has('Content-Type')).toBe(false);
+    });
+
+    it('supports custom serializers', async () => {
+      expect.assertions(2);
+
+      const link = new RestLink({
+        uri: '/api',
+        bodySerializer: 'xml',
+        bodySerializers: {
+          xml: (data, headers) => {
+            headers.set('Content-Type', 'application/xml');
+            return { body: `<title>${data.title}</title>`, headers };
+          },
+        },
+      });
+      fetchMock.post('/api/posts', { id: 1 });
+
+      await makePromise<Result>(
+        execute(link, {
+          operationName: 'publishPost',
+          query: createPost(),
+          variables: { input: { title: 'Love apollo' } },
+        }),
+      );
+
+      const requestCall = fetchMock.lastCall();
+      expect(requestCall[1].body).toBe('<title>Love apollo</title>');
+      expect(requestCall[1].headers.get('Content-Type')).toBe(
+        'application/xml',
+      );
+    });
+
+    it('throws for unknown serializers', async () => {
+      expect.assertions(1);
+
+      const link = new RestLink({ uri: '/api' });
+
+      try {
+        await makePromise<Result>(
+          execute(link, {
+            operationName: 'publishPost',
+            query: createPost('yaml'),
+            variables: { input: { title: 'Love apollo' } },
+          }),
+        );
+      } catch (error) {
+        expect(error.message).toBe(
+          '"yaml" is not a known bodySerializer, add it to RestLink.bodySerializers!',
+        );
+      }
+    });
+  });
+});
+
+describe('Subscription', () => {
+  afterEach(() => {
+    fetchMock.restore();
+  });
+
+  const statusSubscription = gql`
+    subscription statusUpdates {
+      status @rest(type: "Status", path: "/status/stream") {
+        service_name
+        state
+        uptime
+      }
+    }
+  `;
+
+  const collect = (link: ApolloLink, query = statusSubscription) =>
+    new Promise<Result[]>((resolve, reject) => {
+      const results: Result[] = [];
+      execute(link, { query }).subscribe({
+        next: result => results.push(result),
+        error: reject,
+        complete: () => resolve(results),
+      });
+    });
+
+  it('emits one result per server-sent event', async () => {
+    expect.assertions(3);
+
+    const link = new RestLink({ uri: '/api' });
+    fetchMock.get('/api/status/stream', {
+      headers: { 'Content-Type': 'text/event-stream' },
+      body:
+        ': keep-alive\n\n' +
+        'data: {"service_name": "db", "state": "up"}\n\n' +
+        'event: update\r\ndata: {"service_name": "db",\r\ndata: "state": "down"}\r\n\r\n',
+    });
+
+    const results = await collect(link);
+
+    expect(results.map(({ data }) => data.status)).toEqual([
+      { __typename: 'Status', service_name: 'db', state: 'up', uptime: null },
+      { __typename: 'Status', service_name: 'db', state: 'down', uptime: null },
+    ]);
+    const requestCall = fetchMock.calls('/api/status/stream')[0];
+    expect(requestCall[1].method).toBe('GET');
+    expect(requestCall[1].headers.get('Accept')).toBe('text/event-stream');
+  });
+
+  it('applies the fieldNameNormalizer & typePatcher to every event', async () => {
+    expect.assertions(1);
+
+    const link = new RestLink({
+      uri: '/api',
+      fieldNameNormalizer: camelCase,
+      typePatcher: {
+        Status: (data: any): any => ({
+          ...data,
+          uptime: { __typename: 'Uptime', ...data.uptime },
+        }),
+      },
+    });
+    fetchMock.get('/api/status/stream', {
+      body: 'data: {"ServiceName": "db", "uptime": {"seconds": 1}}\n\n',
+    });
+
+    const query = gql`
+      subscription statusUpdates {
+        status @rest(type: "Status", path: "/status/stream") {
+          serviceName
+          uptime {
+            seconds
+          }
+        }
+      }
+    `;
+    const results = await collect(link, query);
+
+    expect(results[0].data.status).toEqual({
+      __typename: 'Status',
+      serviceName: 'db',
+      uptime: { __typename: 'Uptime', seconds: 1 },
+    });
+  });
+
+  it('reads streamed chunks & closes the stream when unsubscribed', done => {
+    const chunks = ['data: {"state":', ' "up"}\n\n'].map(chunk =>
+      Buffer.from(chunk),
+    );
+    let cancelled = false;
+    const customFetch = () =>
+      Promise.resolve({
+        status: 200,
+        body: {
+          getReader: () => ({
+            read: () =>
+              chunks.length > 0
+                ? Promise.resolve({ done: false, value: chunks.shift() })
+                : new Promise(() => {}),
+            cancel: () => {
+              cancelled = true;
+            },
+          }),
+        },
+      });
+    const link = new RestLink({
+      uri: '/api',
+      customFetch: customFetch as any,
+    });
+
+    const states = [];
+    const sub = execute(link, { query: statusSubscription }).subscribe({
+      next: ({ data }) => states.push(data.status.state),
+      error: e => done.fail(e),
+      complete: () => done.fail('complete should not have been called'),
+    });
+
+    setTimeout(() => {
+      sub.unsubscribe();
+      expect(states).toEqual(['up']);
+      expect(cancelled).toBe(true);
+      done();
+    }, 10);
+  });
+
+  it('applies the responseTransformer to every event', async () => {
+    expect.assertions(2);
+
+    const transformed: number[] = [];
+    const link = new RestLink({
+      uri: '/api',
+      responseTransformer: (data, response) => {
+        transformed.push(response.status);
+        return Promise.resolve(data.status);
+      },
+    });
+    fetchMock.get('/api/status/stream', {
+      headers: { 'Content-Type': 'text/event-stream' },
+      body:
+        'data: {"status": {"service_name": "db", "state": "up"}}\n\n' +
+        'data: {"status": {"service_name": "db", "state": "down"}}\n\n',
+    });
+
+    const results = await collect(link);
+
+    expect(results.map(({ data }) => data.status.state)).toEqual([
+      'up',
+      'down',
+    ]);
+    expect(transformed).toEqual([200, 200]);
+  });
+
+  it('polls endpoints with a pollInterval & only emits changed results', done => {
+    const link = new RestLink({ uri: '/api' });
+    const responses = [
+      { service_name: 'db', state: 'up' },
+      { service_name: 'db', state: 'up' },
+      { service_name: 'db', state: 'down' },
+    ];
+    fetchMock.get(
+      '/api/status',
+      () => (responses.length > 1 ? responses.shift() : responses[0]),
+    );
+
+    const query = gql`
+      subscription statusUpdates {
+        status @rest(type: "Status", path: "/status", pollInterval: 5) {
+          state
+        }
+      }
+    `;
+
+    const states = [];
+    const sub = execute(link, { query }).subscribe({
+      next: ({ data }) => states.push(data.status.state),
+      error: e => done.fail(e),
+      complete: () => done.fail('complete should not have been called'),
+    });
+
+    setTimeout(() => {
+      sub.unsubscribe();
+      const requestCount = fetchMock.calls('/api/status').length;
+      expect(requestCount).toBeGreaterThan(3);
+      expect(states).toEqual(['up', 'down']);
+      const requestCall = fetchMock.calls('/api/status')[0];
+      expect(requestCall[1].headers.get('Accept')).toBeNull();
+
+      setTimeout(() => {
+        // Unsubscribing stops polling
+        expect(fetchMock.calls('/api/status').length).toBe(requestCount);
+        done();
+      }, 30);
+    }, 60);
+  });
+
+  it('parses polled responses by their Content-Type', done => {
+    const link = new RestLink({ uri: '/api' });
+    const responses: any[] = [
+      { body: 'ok', headers: { 'Content-Type': 'text/plain' } },
+      { status: 204 },
+    ];
+    fetchMock.get(
+      '/api/health',
+      () => (responses.length > 1 ? responses.shift() : responses[0]),
+    );
+
+    const query = gql`
+      subscription health {
+        health @rest(type: "String", path: "/health", pollInterval: 5)
+      }
+    `;
+
+    const healths = [];
+    const sub = execute(link, { query }).subscribe({
+      next: ({ data }) => healths.push(data.health),
+      error: e => done.fail(e),
+    });
+
+    setTimeout(() => {
+      sub.unsubscribe();
+      expect(healths).toEqual(['ok', null]);
+      done();
+    }, 40);
+  });
+
+  it('reports HTTP Status errors when opening the stream', async () => {
+    expect.assertions(1);
+
+    const link = new RestLink({ uri: '/api' });
+    fetchMock.get('/api/status/stream', 503);
+
+    try {
+      await collect(link);
+    } catch (error) {
+      expect(error.statusCode).toBe(503);
+    }
+  });
+});
+
+describe('validateRequestMethodForOperationType', () => {
+  describe('for operation type "mutation"', () => {
+    it('throws because it is not supported yet', () => {
+      expect.assertions(2);
+      expect(() =>
+        validateRequestMethodForOperationType('GET', 'mutation'),
+      ).toThrowError('"mutation" operations do not support that HTTP-verb');
+      expect(() =>
+        validateRequestMethodForOperationType('GIBBERISH', 'mutation'),
+      ).toThrowError('"mutation" operations do not support that HTTP-verb');
+    });
+  });
+  describe('for operation type "subscription"', () => {
+    it('throws if the method is not GET', () => {
+      expect.assertions(2);
+      expect(() =>
+        validateRequestMethodForOperationType('GET', 'subscription'),
+      ).not.toThrow();
+      expect(() =>
+        validateRequestMethodForOperationType('POST', 'subscription'),
+      ).toThrowError(
+        'A "subscription" operation can only support "GET" requests but got "POST".',
+      );
+    });
+  });
+  describe('with allowedMethods', () => {
+    it('only accepts the given methods for their operation type', () => {
+      expect.assertions(3);
+      const allowedMethods = { query: ['GET', 'POST'] };
+      expect(() =>
+        validateRequestMethodForOperationType('POST', 'query', allowedMethods),
+      ).not.toThrow();
+      expect(() =>
+        validateRequestMethodForOperationType('HEAD', 'query', allowedMethods),
+      ).toThrowError(
+        'A "query" operation can only support "GET" or "POST" requests but got "HEAD".',
+      );
+      expect(() =>
+        validateRequestMethodForOperationType(
+          'PUT',
+          'mutation',
+          allowedMethods,
+        ),
+      ).not.toThrow();
+    });
+  });
+});
+
+describe('export directive', () => {
+  afterEach(() => {
+    fetchMock.restore();
+  });
+  it('should throw an error if export is missing', async () => {
+    expect.assertions(1);
+
+    const link = new RestLink({ uri: '/api' });
+
+    const post = { id: '1', title: 'Love apollo', tagId: 6 };
+    fetchMock.get('/api/post/1', post);
+
+    const postTagWithoutExport = gql`
+      query postTitle {
+        post(id: "1") @rest(type: "Post", path: "/post/:id") {
+          tagId
+          title
+          tag @rest(type: "Tag", path: "/tag/:tagId") {
+            name
+          }
+        }
+      }
+    `;
+
+    try {
+      await makePromise<Result>(
+        execute(link, {
+          operationName: 'postTitle',
+          query: postTagWithoutExport,
+          variables: { id: '1' },
+        }),
+      );
+    } catch (e) {
+      expect(e.message).toBe(
+        'Missing params to run query, specify it in the query params or use an export directive: :tagId',
+      );
+    }
+  });
+  it('can use a variable from export', async () => {
+    expect.assertions(1);
+
+    const link = new RestLink({ uri: '/api' });
+
+    const post = { id: '1', title: 'Love apollo', tagId: 6 };
     fetchMock.get('/api/post/1', post);
     const tag = { name: 'apollo' };
     fetchMock.get('/api/tag/6', tag);
@@ -2038,6 +3238,1769 @@ describe('export directive', () => {
   });
 });
 
+describe('Server errors', () => {
+  afterEach(() => {
+    fetchMock.restore();
+  });
+
+  const postsWithAuthorsQuery = gql`
+    query postsWithAuthors {
+      posts @rest(type: "[Post]", path: "/posts") {
+        authorId @export(as: "authorId")
+        author @rest(type: "User", path: "/users/:authorId", endpoint: "v1") {
+          name
+        }
+      }
+    }
+  `;
+
+  it('describes the failed request & its GraphQL path', async () => {
+    expect.assertions(7);
+
+    const link = new RestLink({ endpoints: { '': '/api', v1: '/v1' } });
+    fetchMock.get('/api/posts', [{ authorId: 1 }]);
+    fetchMock.get('/v1/users/1', {
+      status: 403,
+      body: { message: 'Not allowed' },
+    });
+
+    try {
+      await makePromise<Result>(
+        execute(link, {
+          operationName: 'postsWithAuthors',
+          query: postsWithAuthorsQuery,
+        }),
+      );
+    } catch (error) {
+      expect(error.statusCode).toBe(403);
+      expect(error.parsedBody).toEqual({ message: 'Not allowed' });
+      expect(await error.result).toBe(
+        JSON.stringify({ message: 'Not allowed' }),
+      );
+      expect(error.url).toBe('/v1/users/1');
+      expect(error.method).toBe('GET');
+      expect(error.endpoint).toBe('v1');
+      expect(error.path).toEqual(['posts', 0, 'author']);
+    }
+  });
+
+  it('can report 4xx responses as GraphQL errors', async () => {
+    expect.assertions(2);
+
+    const link = new RestLink({
+      endpoints: { '': '/api', v1: '/v1' },
+      clientErrorsAsGraphQLErrors: true,
+    });
+    fetchMock.get('/api/posts', [{ authorId: 1 }, { authorId: 2 }]);
+    fetchMock.get('/v1/users/1', { name: 'Sashko' });
+    fetchMock.get('/v1/users/2', { status: 404, body: 'Not found' });
+
+    const { data, errors } = await makePromise<Result>(
+      execute(link, {
+        operationName: 'postsWithAuthors',
+        query: postsWithAuthorsQuery,
+      }),
+    );
+
+    expect(data.posts.map(post => post.author)).toEqual([
+      { __typename: 'User', name: 'Sashko' },
+      null,
+    ]);
+    expect(errors).toEqual([
+      {
+        message: 'Response not successful: Received status code 404',
+        path: ['posts', 1, 'author'],
+        extensions: {
+          statusCode: 404,
+          url: '/v1/users/2',
+          method: 'GET',
+          endpoint: 'v1',
+          body: 'Not found',
+        },
+      },
+    ]);
+  });
+
+  describe('errorPolicy', () => {
+    const postAndTagsQuery = gql`
+      query postAndTags {
+        post @rest(type: "Post", path: "/post/1") {
+          id
+        }
+        tags @rest(type: "[Tag]", path: "/tags") {
+          name
+        }
+      }
+    `;
+
+    it('keeps sibling fields of failed calls with errorPolicy "all"', async () => {
+      expect.assertions(2);
+
+      const link = new RestLink({ uri: '/api', errorPolicy: 'all' });
+      fetchMock.get('/api/post/1', { id: '1' });
+      fetchMock.get('/api/tags', { throws: new TypeError('Failed to fetch') });
+
+      const { data, errors } = await makePromise<Result>(
+        execute(link, {
+          operationName: 'postAndTags',
+          query: postAndTagsQuery,
+        }),
+      );
+
+      expect(data).toEqual({
+        post: { __typename: 'Post', id: '1' },
+        tags: null,
+      });
+      expect(errors).toEqual([{ message: 'Failed to fetch', path: ['tags'] }]);
+    });
+
+    it('can be set per operation through the context', async () => {
+      expect.assertions(3);
+
+      const link = new RestLink({ uri: '/api' });
+      fetchMock.get('/api/post/1', { id: '1' });
+      fetchMock.get('/api/tags', 502);
+
+      const client = new ApolloClient({
+        cache: new InMemoryCache(),
+        link,
+      });
+      const { data, errors }: Result = await client.query({
+        query: postAndTagsQuery,
+        errorPolicy: 'all',
+        context: { errorPolicy: 'all' },
+      });
+
+      expect(data.post.id).toBe('1');
+      expect(errors[0].path).toEqual(['tags']);
+      expect(errors[0].extensions.statusCode).toBe(502);
+    });
+  });
+
+  it('still fails the operation for 5xx responses', async () => {
+    expect.assertions(1);
+
+    const link = new RestLink({
+      uri: '/api',
+      clientErrorsAsGraphQLErrors: true,
+    });
+    fetchMock.get('/api/post/1', 500);
+
+    try {
+      await makePromise<Result>(
+        execute(link, { operationName: 'post', query: sampleQuery }),
+      );
+    } catch (error) {
+      expect(error.statusCode).toBe(500);
+    }
+  });
+});
+
+describe('Retries', () => {
+  afterEach(() => {
+    fetchMock.restore();
+  });
+
+  const failingTimes = (failures: any[], success: any) => () =>
+    failures.length > 0 ? failures.shift() : success;
+
+  const createPostMutation = gql`
+    mutation publishPost($input: PublishablePostInput!) {
+      publishedPost(input: $input)
+        @rest(type: "Post", path: "/posts", method: "POST") {
+        id
+      }
+    }
+  `;
+
+  it('retries failed GET requests', async () => {
+    expect.assertions(2);
+
+    const link = new RestLink({
+      uri: '/api',
+      retry: { initialDelay: 1 },
+    });
+    fetchMock.get(
+      '/api/post/1',
+      failingTimes([503, { throws: new TypeError('Failed to fetch') }], {
+        id: '1',
+      }),
+    );
+
+    const { data } = await makePromise<Result>(
+      execute(link, { operationName: 'post', query: sampleQuery }),
+    );
+
+    expect(data.post.id).toBe('1');
+    expect(fetchMock.calls('/api/post/1').length).toBe(3);
+  });
+
+  it('gives up after the max number of attempts', async () => {
+    expect.assertions(2);
+
+    const link = new RestLink({
+      uri: '/api',
+      retry: { initialDelay: 1, max: 2 },
+    });
+    fetchMock.get('/api/post/1', 503);
+
+    try {
+      await makePromise<Result>(
+        execute(link, { operationName: 'post', query: sampleQuery }),
+      );
+    } catch (error) {
+      expect(error.statusCode).toBe(503);
+      expect(fetchMock.calls('/api/post/1').length).toBe(2);
+    }
+  });
+
+  it('does not retry responses the predicate rejects', async () => {
+    expect.assertions(2);
+
+    const link = new RestLink({ uri: '/api', retry: true });
+    fetchMock.get('/api/post/1', 404);
+
+    try {
+      await makePromise<Result>(
+        execute(link, { operationName: 'post', query: sampleQuery }),
+      );
+    } catch (error) {
+      expect(error.statusCode).toBe(404);
+      expect(fetchMock.calls('/api/post/1').length).toBe(1);
+    }
+  });
+
+  it('honors Retry-After', async () => {
+    expect.assertions(1);
+
+    const link = new RestLink({
+      uri: '/api',
+      retry: { initialDelay: 60000, jitter: false },
+    });
+    fetchMock.get(
+      '/api/post/1',
+      failingTimes([{ status: 429, headers: { 'Retry-After': '0' } }], {
+        id: '1',
+      }),
+    );
+
+    const { data } = await makePromise<Result>(
+      execute(link, { operationName: 'post', query: sampleQuery }),
+    );
+
+    expect(data.post.id).toBe('1');
+  });
+
+  it('only retries POST requests when opted in', async () => {
+    expect.assertions(3);
+
+    const variables = { input: { title: 'Love apollo' } };
+    fetchMock.post('/api/posts', failingTimes([503], { id: '1' }));
+
+    try {
+      await makePromise<Result>(
+        execute(new RestLink({ uri: '/api', retry: { initialDelay: 1 } }), {
+          operationName: 'publishPost',
+          query: createPostMutation,
+          variables,
+        }),
+      );
+    } catch (error) {
+      expect(error.statusCode).toBe(503);
+    }
+
+    fetchMock.restore();
+    fetchMock.post('/api/posts', failingTimes([503], { id: '1' }));
+    const link = new RestLink({
+      uri: '/api',
+      retry: { initialDelay: 1, methods: ['POST'] },
+    });
+    const { data } = await makePromise<Result>(
+      execute(link, {
+        operationName: 'publishPost',
+        query: createPostMutation,
+        variables,
+      }),
+    );
+    expect(data.publishedPost.id).toBe('1');
+    expect(fetchMock.calls('/api/posts').length).toBe(2);
+  });
+
+  it('can be disabled per request', async () => {
+    expect.assertions(1);
+
+    const link = new RestLink({ uri: '/api', retry: { initialDelay: 1 } });
+    fetchMock.get('/api/post/1', 503);
+
+    const postQuery = gql`
+      query post {
+        post @rest(type: "Post", path: "/post/1", retry: false) {
+          id
+        }
+      }
+    `;
+
+    try {
+      await makePromise<Result>(
+        execute(link, { operationName: 'post', query: postQuery }),
+      );
+    } catch (error) {
+      expect(fetchMock.calls('/api/post/1').length).toBe(1);
+    }
+  });
+});
+
+describe('Timeouts and cancellation', () => {
+  const realAbortController = (global as any).AbortController;
+
+  class FakeAbortController {
+    signal = {
+      aborted: false,
+      listeners: [],
+      addEventListener(type, listener) {
+        this.listeners.push(listener);
+      },
+      removeEventListener(type, listener) {
+        this.listeners = this.listeners.filter(l => l !== listener);
+      },
+    };
+    abort() {
+      if (!this.signal.aborted) {
+        this.signal.aborted = true;
+        this.signal.listeners.forEach(listener => listener());
+      }
+    }
+  }
+
+  beforeEach(() => {
+    (global as any).AbortController = FakeAbortController;
+  });
+
+  afterEach(() => {
+    (global as any).AbortController = realAbortController;
+  });
+
+  const hangingFetch = jest.fn(() => new Promise<Response>(() => {}));
+
+  it('fails with a TimeoutError and aborts the request', async () => {
+    expect.assertions(4);
+
+    const link = new RestLink({
+      uri: '/api',
+      customFetch: hangingFetch,
+      timeout: 10,
+    });
+
+    try {
+      await makePromise<Result>(
+        execute(link, { operationName: 'post', query: sampleQuery }),
+      );
+    } catch (error) {
+      expect(error.name).toBe('TimeoutError');
+      expect(error.timeout).toBe(10);
+      expect(error.url).toBe('/api/post/1');
+      const { signal } = hangingFetch.mock.calls[0][1];
+      expect(signal.aborted).toBe(true);
+    }
+  });
+
+  it('can be overridden per request', async () => {
+    expect.assertions(1);
+
+    const link = new RestLink({
+      uri: '/api',
+      customFetch: hangingFetch,
+      timeout: 60000,
+    });
+    const postQuery = gql`
+      query post {
+        post @rest(type: "Post", path: "/post/1", timeout: 5) {
+          id
+        }
+      }
+    `;
+
+    try {
+      await makePromise<Result>(
+        execute(link, { operationName: 'post', query: postQuery }),
+      );
+    } catch (error) {
+      expect(error.message).toBe('Request timed out after 5ms: /api/post/1');
+    }
+  });
+
+  it('aborts in-flight requests when unsubscribed from', () => {
+    hangingFetch.mockClear();
+    const link = new RestLink({ uri: '/api', customFetch: hangingFetch });
+
+    const subscription = execute(link, {
+      operationName: 'post',
+      query: sampleQuery,
+    }).subscribe({});
+
+    return new Promise(resolve => setTimeout(resolve, 0)).then(() => {
+      const { signal } = hangingFetch.mock.calls[0][1];
+      expect(signal.aborted).toBe(false);
+      subscription.unsubscribe();
+      expect(signal.aborted).toBe(true);
+    });
+  });
+
+  it('leaves no abort listeners behind once requests have settled', async () => {
+    expect.assertions(2);
+
+    const controllers: FakeAbortController[] = [];
+    (global as any).AbortController = class extends FakeAbortController {
+      constructor() {
+        super();
+        controllers.push(this);
+      }
+    };
+    const link = new RestLink({
+      uri: '/api',
+      customFetch: () =>
+        Promise.resolve(new Response(JSON.stringify({ id: '1' }))),
+    });
+    const postsQuery = gql`
+      query posts {
+        a: post @rest(type: "Post", path: "/post/1") {
+          id
+        }
+        b: post @rest(type: "Post", path: "/post/1") {
+          id
+        }
+      }
+    `;
+
+    const { data } = await makePromise<Result>(
+      execute(link, { operationName: 'posts', query: postsQuery }),
+    );
+
+    expect(data.b).toEqual({ __typename: 'Post', id: '1' });
+    expect(
+      controllers.map(controller => controller.signal.listeners.length),
+    ).toEqual(controllers.map(() => 0));
+  });
+
+  it('does not share an aborted request with later operations', () => {
+    const abortableFetch = jest.fn(
+      (url, { signal }) =>
+        abortableFetch.mock.calls.length > 1
+          ? Promise.resolve(new Response(JSON.stringify({ id: '1' })))
+          : new Promise<Response>((resolve, reject) =>
+              signal.addEventListener('abort', () => {
+                const error = new Error('Aborted');
+                error.name = 'AbortError';
+                reject(error);
+              }),
+            ),
+    );
+    const link = new RestLink({ uri: '/api', customFetch: abortableFetch });
+
+    const subscription = execute(link, {
+      operationName: 'post',
+      query: sampleQuery,
+    }).subscribe({});
+
+    return new Promise(resolve => setTimeout(resolve, 0)).then(() => {
+      // Unmounting & remounting a component does both in the same tick
+      subscription.unsubscribe();
+      return makePromise<Result>(
+        execute(link, { operationName: 'post', query: sampleQuery }),
+      ).then(({ data }) => {
+        expect(abortableFetch).toHaveBeenCalledTimes(2);
+        expect(data.post).toEqual({ __typename: 'Post', id: '1' });
+      });
+    });
+  });
+
+  it('stops retrying when unsubscribed from', () => {
+    const failingFetch = jest.fn(() =>
+      Promise.resolve(new Response('', { status: 503 })),
+    );
+    const link = new RestLink({
+      uri: '/api',
+      customFetch: failingFetch,
+      retry: { max: 5, initialDelay: 20, jitter: false },
+    });
+
+    const subscription = execute(link, {
+      operationName: 'post',
+      query: sampleQuery,
+    }).subscribe({});
+
+    return new Promise(resolve => setTimeout(resolve, 10))
+      .then(() => {
+        subscription.unsubscribe();
+        return new Promise(resolve => setTimeout(resolve, 100));
+      })
+      .then(() => {
+        expect(failingFetch).toHaveBeenCalledTimes(1);
+      });
+  });
+});
+
+describe('Request deduplication', () => {
+  afterEach(() => {
+    fetchMock.restore();
+  });
+
+  it('shares one fetch between fields requesting the same URL', async () => {
+    expect.assertions(3);
+
+    const link = new RestLink({ uri: '/api' });
+    fetchMock.get('/api/post/1', { id: '1', title: 'Love apollo' });
+
+    const postAndArticleQuery = gql`
+      query postAndArticle {
+        post @rest(type: "Post", path: "/post/1") {
+          id
+        }
+        article @rest(type: "Article", path: "/post/1") {
+          id
+          title
+        }
+      }
+    `;
+
+    const { data } = await makePromise<Result>(
+      execute(link, {
+        operationName: 'postAndArticle',
+        query: postAndArticleQuery,
+      }),
+    );
+
+    expect(fetchMock.calls('/api/post/1').length).toBe(1);
+    expect(data.post).toEqual({ __typename: 'Post', id: '1' });
+    expect(data.article).toEqual({
+      __typename: 'Article',
+      id: '1',
+      title: 'Love apollo',
+    });
+  });
+
+  it('reports the errors of a shared fetch at every field', async () => {
+    expect.assertions(3);
+
+    const link = new RestLink({ uri: '/api', errorPolicy: 'all' });
+    fetchMock.get('/api/post/1', 500);
+
+    const postsQuery = gql`
+      query posts {
+        a: post @rest(type: "Post", path: "/post/1") {
+          id
+        }
+        b: post @rest(type: "Post", path: "/post/1") {
+          id
+        }
+      }
+    `;
+
+    const { data, errors } = await makePromise<Result>(
+      execute(link, { operationName: 'posts', query: postsQuery }),
+    );
+
+    expect(fetchMock.calls('/api/post/1').length).toBe(1);
+    expect(data).toEqual({ a: null, b: null });
+    expect(errors.map(({ path }) => path)).toEqual([['a'], ['b']]);
+  });
+
+  it('shares one fetch between concurrent operations', async () => {
+    expect.assertions(3);
+
+    const link = new RestLink({ uri: '/api' });
+    fetchMock.get('/api/post/1', { id: '1' });
+
+    const [first, second] = await Promise.all([
+      makePromise<Result>(
+        execute(link, { operationName: 'post', query: sampleQuery }),
+      ),
+      makePromise<Result>(
+        execute(link, { operationName: 'post', query: sampleQuery }),
+      ),
+    ]);
+
+    expect(fetchMock.calls('/api/post/1').length).toBe(1);
+    expect(first.data.post.id).toBe('1');
+    expect(second.data.post.id).toBe('1');
+  });
+
+  it('fetches again once the request completed', async () => {
+    expect.assertions(1);
+
+    const link = new RestLink({ uri: '/api' });
+    fetchMock.get('/api/post/1', { id: '1' });
+
+    await makePromise<Result>(
+      execute(link, { operationName: 'post', query: sampleQuery }),
+    );
+    await makePromise<Result>(
+      execute(link, { operationName: 'post', query: sampleQuery }),
+    );
+
+    expect(fetchMock.calls('/api/post/1').length).toBe(2);
+  });
+
+  it('does not share requests with different headers', async () => {
+    expect.assertions(1);
+
+    const link = new RestLink({ uri: '/api' });
+    fetchMock.get('/api/post/1', { id: '1' });
+
+    await Promise.all([
+      makePromise<Result>(
+        execute(link, {
+          operationName: 'post',
+          query: sampleQuery,
+          context: { headers: { authorization: 'Bearer a' } },
+        }),
+      ),
+      makePromise<Result>(
+        execute(link, {
+          operationName: 'post',
+          query: sampleQuery,
+          context: { headers: { authorization: 'Bearer b' } },
+        }),
+      ),
+    ]);
+
+    expect(fetchMock.calls('/api/post/1').length).toBe(2);
+  });
+
+  it('does not share requests with different provided headers', async () => {
+    expect.assertions(2);
+
+    const link = new RestLink({
+      uri: '/api',
+      headers: operation => ({
+        Authorization: operation.getContext().token,
+      }),
+    });
+    fetchMock.get('/api/post/1', (url, { headers }) => ({
+      id: headers.get('Authorization'),
+    }));
+
+    const results = await Promise.all(
+      ['alice', 'bob'].map(token =>
+        makePromise<Result>(
+          execute(link, {
+            operationName: 'post',
+            query: sampleQuery,
+            context: { token },
+          }),
+        ),
+      ),
+    );
+
+    expect(fetchMock.calls('/api/post/1').length).toBe(2);
+    expect(results.map(({ data }) => data.post.id)).toEqual(['alice', 'bob']);
+  });
+
+  it('can be disabled per request', async () => {
+    expect.assertions(1);
+
+    const link = new RestLink({ uri: '/api' });
+    fetchMock.get('/api/post/1', { id: '1' });
+
+    const postsQuery = gql`
+      query posts {
+        post @rest(type: "Post", path: "/post/1", dedupe: false) {
+          id
+        }
+        samePost @rest(type: "Post", path: "/post/1", dedupe: false) {
+          id
+        }
+      }
+    `;
+
+    await makePromise<Result>(
+      execute(link, { operationName: 'posts', query: postsQuery }),
+    );
+
+    expect(fetchMock.calls('/api/post/1').length).toBe(2);
+  });
+});
+
+describe('Batching', () => {
+  afterEach(() => {
+    fetchMock.restore();
+  });
+
+  it('merges the calls of every parent into one request', async () => {
+    expect.assertions(3);
+
+    const link = new RestLink({ uri: '/api' });
+    fetchMock.get('/api/users', [{ id: 1 }, { id: 2 }, { id: 3 }]);
+    fetchMock.get('/api/friends?ids=1,2,3', [
+      { name: 'Ada', userId: 1 },
+      { name: 'Grace', userId: 1 },
+      { name: 'Alan', userId: 3 },
+    ]);
+
+    const usersQuery = gql`
+      query users {
+        users @rest(type: "User", path: "/users") {
+          id @export(as: "id")
+          friends
+            @rest(
+              type: "Friend"
+              path: "/friends/:id"
+              batch: {
+                key: "id"
+                path: "/friends"
+                param: "ids"
+                matchBy: "userId"
+                many: true
+              }
+            ) {
+            name
+          }
+        }
+      }
+    `;
+
+    const { data } = await makePromise<Result>(
+      execute(link, { operationName: 'users', query: usersQuery }),
+    );
+
+    expect(fetchMock.calls('/api/friends?ids=1,2,3').length).toBe(1);
+    expect(data.users.map(user => user.friends.length)).toEqual([2, 0, 1]);
+    expect(data.users[2].friends).toEqual([
+      { __typename: 'Friend', name: 'Alan' },
+    ]);
+  });
+
+  it('splits responses keyed by the batched keys', async () => {
+    expect.assertions(2);
+
+    const link = new RestLink({ uri: '/api' });
+    fetchMock.get('/api/posts', [
+      { id: '1', authorId: 7 },
+      { id: '2', authorId: 8 },
+      { id: '3', authorId: 7 },
+    ]);
+    fetchMock.get('/api/authors?authorId=7,8', {
+      7: { name: 'Ada' },
+      8: { name: 'Grace' },
+    });
+
+    const postsQuery = gql`
+      query posts {
+        posts @rest(type: "Post", path: "/posts") {
+          authorId @export(as: "authorId")
+          author
+            @rest(
+              type: "Author"
+              path: "/authors/:authorId"
+              batch: { key: "authorId", path: "/authors" }
+            ) {
+            name
+          }
+        }
+      }
+    `;
+
+    const { data } = await makePromise<Result>(
+      execute(link, { operationName: 'posts', query: postsQuery }),
+    );
+
+    expect(fetchMock.calls('/api/authors?authorId=7,8').length).toBe(1);
+    expect(data.posts.map(post => post.author.name)).toEqual([
+      'Ada',
+      'Grace',
+      'Ada',
+    ]);
+  });
+
+  it('can split responses with a function', async () => {
+    expect.assertions(1);
+
+    const link = new RestLink({ uri: '/api' });
+    fetchMock.get('/api/posts', [{ id: '1' }, { id: '2' }]);
+    fetchMock.get('/api/comments?id=1,2', {
+      results: [[{ text: 'First!' }], []],
+    });
+
+    const postsQuery = gql`
+      query posts($batch: any) {
+        posts @rest(type: "Post", path: "/posts") {
+          id @export(as: "id")
+          comments
+            @rest(type: "Comment", path: "/posts/:id/comments", batch: $batch) {
+            text
+          }
+        }
+      }
+    `;
+
+    const { data } = await makePromise<Result>(
+      execute(link, {
+        operationName: 'posts',
+        query: postsQuery,
+        variables: {
+          batch: {
+            key: 'id',
+            path: '/comments',
+            split: (data, key) => data.results[Number(key) - 1],
+          },
+        },
+      }),
+    );
+
+    expect(data.posts.map(post => post.comments.length)).toEqual([1, 0]);
+  });
+});
+
+describe('HTTP cache', () => {
+  afterEach(() => {
+    fetchMock.restore();
+  });
+
+  const post = { id: '1', title: 'Love apollo' };
+  const runPostQuery = (link, context = {}) =>
+    makePromise<Result>(
+      execute(link, { operationName: 'post', query: sampleQuery, context }),
+    );
+
+  it('reuses fresh responses', async () => {
+    expect.assertions(2);
+
+    const link = new RestLink({ uri: '/api', httpCache: true });
+    fetchMock.get('/api/post/1', {
+      body: post,
+      headers: { 'Cache-Control': 'max-age=60' },
+    });
+
+    await runPostQuery(link);
+    const { data } = await runPostQuery(link);
+
+    expect(data.post).toEqual({ __typename: 'Post', id: '1' });
+    expect(fetchMock.calls('/api/post/1').length).toBe(1);
+  });
+
+  it('revalidates stale responses & treats a 304 as a hit', async () => {
+    expect.assertions(3);
+
+    const link = new RestLink({ uri: '/api', httpCache: 'memory' });
+    fetchMock.get(
+      '/api/post/1',
+      (url, options) =>
+        options.headers.get('If-None-Match') === '"v1"'
+          ? 304
+          : { body: post, headers: { ETag: '"v1"' } },
+    );
+
+    await runPostQuery(link);
+    const { data } = await runPostQuery(link);
+
+    expect(data.post).toEqual({ __typename: 'Post', id: '1' });
+    expect(fetchMock.calls('/api/post/1').length).toBe(2);
+    const [, options] = fetchMock.lastCall();
+    expect(options.headers.get('If-None-Match')).toBe('"v1"');
+  });
+
+  it('does not reuse responses for requests with other Vary headers', async () => {
+    expect.assertions(1);
+
+    const link = new RestLink({ uri: '/api', httpCache: true });
+    fetchMock.get('/api/post/1', {
+      body: post,
+      headers: { 'Cache-Control': 'max-age=60', Vary: 'Accept-Language' },
+    });
+
+    await runPostQuery(link, { headers: { 'Accept-Language': 'en' } });
+    await runPostQuery(link, { headers: { 'Accept-Language': 'fr' } });
+    await runPostQuery(link, { headers: { 'Accept-Language': 'fr' } });
+
+    expect(fetchMock.calls('/api/post/1').length).toBe(2);
+  });
+
+  it('does not store responses marked no-store', async () => {
+    expect.assertions(1);
+
+    const link = new RestLink({ uri: '/api', httpCache: true });
+    fetchMock.get('/api/post/1', {
+      body: post,
+      headers: { 'Cache-Control': 'no-store, max-age=60' },
+    });
+
+    await runPostQuery(link);
+    await runPostQuery(link);
+
+    expect(fetchMock.calls('/api/post/1').length).toBe(2);
+  });
+
+  it('supports custom, async storage', async () => {
+    expect.assertions(4);
+
+    const entries = {};
+    const storage = {
+      get: jest.fn(key => Promise.resolve(entries[key])),
+      set: jest.fn((key, entry) => {
+        entries[key] = entry;
+        return Promise.resolve();
+      }),
+    };
+    const link = new RestLink({ uri: '/api', httpCache: storage });
+    fetchMock.get('/api/post/1', {
+      body: post,
+      headers: { 'Cache-Control': 'max-age=60' },
+    });
+
+    await runPostQuery(link);
+    const { data } = await runPostQuery(link);
+
+    expect(data.post.id).toBe('1');
+    expect(fetchMock.calls('/api/post/1').length).toBe(1);
+    expect(storage.set).toHaveBeenCalledTimes(1);
+    expect(entries['/api/post/1']).toMatchObject({
+      status: 200,
+      maxAge: 60,
+      body: JSON.stringify(post),
+    });
+  });
+
+  it('ignores errors of the storage', async () => {
+    expect.assertions(2);
+
+    const storage = {
+      get: () => Promise.reject(new Error('QuotaExceededError')),
+      set: () => {
+        throw new Error('QuotaExceededError');
+      },
+    };
+    const link = new RestLink({ uri: '/api', httpCache: storage });
+    fetchMock.get('/api/post/1', {
+      body: post,
+      headers: { 'Cache-Control': 'max-age=60' },
+    });
+
+    const { data } = await runPostQuery(link);
+
+    expect(data.post).toEqual({ __typename: 'Post', id: '1' });
+    expect(fetchMock.calls('/api/post/1').length).toBe(1);
+  });
+
+  it('keeps the 100 last used responses in memory', async () => {
+    expect.assertions(1);
+
+    const link = new RestLink({ uri: '/api', httpCache: true });
+    fetchMock.get('begin:/api/post/', {
+      body: post,
+      headers: { 'Cache-Control': 'max-age=60' },
+    });
+    const postQuery = gql`
+      query post($id: ID!) {
+        post(id: $id) @rest(type: "Post", path: "/post/:id") {
+          id
+        }
+      }
+    `;
+    const runQuery = (id: number) =>
+      makePromise<Result>(
+        execute(link, {
+          operationName: 'post',
+          query: postQuery,
+          variables: { id },
+        }),
+      );
+
+    for (let id = 0; id < 100; id++) {
+      await runQuery(id);
+    }
+    // Using the first makes the second the least recently used, evicted by the 101st
+    await runQuery(0);
+    await runQuery(100);
+    await runQuery(0);
+    await runQuery(1);
+
+    expect(
+      fetchMock
+        .calls()
+        .matched.map(([url]) => url)
+        .slice(100),
+    ).toEqual(['/api/post/100', '/api/post/1']);
+  });
+});
+
+describe('Pagination', () => {
+  afterEach(() => {
+    fetchMock.restore();
+  });
+
+  it('exposes the response metadata with responseMeta', async () => {
+    expect.assertions(1);
+
+    const link = new RestLink({ uri: '/api', fieldNameNormalizer: camelCase });
+    fetchMock.get('/api/posts', {
+      body: [{ post_id: '1' }],
+      headers: {
+        Link:
+          '</api/posts?page=2>; rel="next", </api/posts?page=5>; rel="last"',
+        'X-Total-Count': '5',
+      },
+    });
+
+    const postsQuery = gql`
+      query posts {
+        posts @rest(type: "[Post]", path: "/posts", responseMeta: true) {
+          data {
+            postId
+          }
+          status
+          links
+          totalCount
+        }
+      }
+    `;
+
+    const { data } = await makePromise<Result>(
+      execute(link, { operationName: 'posts', query: postsQuery }),
+    );
+
+    expect(data.posts).toEqual({
+      __typename: 'RestResponse',
+      data: [{ __typename: 'Post', postId: '1' }],
+      status: 200,
+      links: { next: '/api/posts?page=2', last: '/api/posts?page=5' },
+      totalCount: 5,
+    });
+  });
+
+  it('follows next links with autoPaginate', async () => {
+    expect.assertions(2);
+
+    const link = new RestLink({ uri: '/api' });
+    const page = (ids: string[], next?: string) => ({
+      body: ids.map(id => ({ id })),
+      headers: next ? { Link: `<${next}>; rel="next"` } : {},
+    });
+    fetchMock
+      .get('/api/posts', page(['1', '2'], '/api/posts?page=2'))
+      .get('/api/posts?page=2', page(['3', '4'], '/api/posts?page=3'))
+      .get('/api/posts?page=3', page(['5']));
+
+    const postsQuery = gql`
+      query posts($limit: Int) {
+        posts @rest(type: "[Post]", path: "/posts", autoPaginate: $limit) {
+          id
+        }
+      }
+    `;
+
+    const all = await makePromise<Result>(
+      execute(link, {
+        operationName: 'posts',
+        query: postsQuery,
+        variables: { limit: 100 },
+      }),
+    );
+    expect(all.data.posts.map(post => post.id)).toEqual([
+      '1',
+      '2',
+      '3',
+      '4',
+      '5',
+    ]);
+
+    fetchMock.reset();
+    const limited = await makePromise<Result>(
+      execute(link, {
+        operationName: 'posts',
+        query: postsQuery,
+        variables: { limit: 3 },
+      }),
+    );
+    expect([
+      limited.data.posts.length,
+      fetchMock.calls('/api/posts?page=3').length,
+    ]).toEqual([3, 0]);
+  });
+
+  it('resolves relative next links against the response URL', async () => {
+    expect.assertions(1);
+
+    const link = new RestLink({ uri: 'https://api.example.com/v1' });
+    const page = (ids: string[], next?: string) => ({
+      body: ids.map(id => ({ id })),
+      headers: next ? { Link: `<${next}>; rel="next"` } : {},
+    });
+    fetchMock
+      .get('https://api.example.com/v1/posts', page(['1'], '/v1/posts?page=2'))
+      .get(
+        'https://api.example.com/v1/posts?page=2',
+        page(['2'], 'posts?page=3'),
+      )
+      .get('https://api.example.com/v1/posts?page=3', page(['3']));
+
+    const postsQuery = gql`
+      query posts {
+        posts @rest(type: "[Post]", path: "/posts", autoPaginate: 100) {
+          id
+        }
+      }
+    `;
+
+    const { data } = await makePromise<Result>(
+      execute(link, { operationName: 'posts', query: postsQuery }),
+    );
+    expect(data.posts.map(post => post.id)).toEqual(['1', '2', '3']);
+  });
+});
+
+describe('Response metadata', () => {
+  afterEach(() => {
+    fetchMock.restore();
+  });
+
+  it('adds the status & headers under the responseMetaKey', async () => {
+    expect.assertions(2);
+
+    const link = new RestLink({ uri: '/api', fieldNameNormalizer: camelCase });
+    fetchMock.get('/api/post/1', {
+      body: { post_id: '1' },
+      headers: { ETag: '"v1"', 'X-RateLimit-Remaining': '10' },
+    });
+
+    const postQuery = gql`
+      query post {
+        post @rest(type: "Post", path: "/post/1", responseMetaKey: "_meta") {
+          postId
+          _meta {
+            status
+            headers
+          }
+        }
+      }
+    `;
+
+    const { data } = await makePromise<Result>(
+      execute(link, { operationName: 'post', query: postQuery }),
+    );
+
+    expect(data.post.postId).toBe('1');
+    expect(data.post._meta).toMatchObject({
+      __typename: 'RestResponseMeta',
+      status: 200,
+      headers: { etag: '"v1"', 'x-ratelimit-remaining': '10' },
+    });
+  });
+
+  it('resolves responses without a body to their metadata', async () => {
+    expect.assertions(2);
+
+    const link = new RestLink({ uri: '/api' });
+    fetchMock.post('/api/posts', {
+      status: 201,
+      headers: { Location: '/api/post/2' },
+    });
+
+    const createPostMutation = gql`
+      mutation publishPost($input: PublishablePostInput!) {
+        publishedPost(input: $input)
+          @rest(
+            type: "Post"
+            path: "/posts"
+            method: "POST"
+            responseMetaKey: "meta"
+          ) {
+          id
+          meta {
+            status
+            headers
+          }
+        }
+      }
+    `;
+
+    const { data } = await makePromise<Result>(
+      execute(link, {
+        operationName: 'publishPost',
+        query: createPostMutation,
+        variables: { input: { title: 'Love apollo' } },
+      }),
+    );
+
+    expect(data.publishedPost.id).toBeNull();
+    expect(data.publishedPost.meta).toMatchObject({
+      status: 201,
+      headers: { location: '/api/post/2' },
+    });
+  });
+});
+
+describe('Authentication', () => {
+  afterEach(() => {
+    fetchMock.restore();
+  });
+
+  it('evaluates a headers function for every request', async () => {
+    expect.assertions(3);
+
+    let token = 'first';
+    const headers = jest.fn(operation => ({
+      Authorization: `Bearer ${token}`,
+    }));
+    const link = new RestLink({ uri: '/api', headers });
+    fetchMock.get('/api/post/1', { id: '1' });
+
+    await makePromise<Result>(
+      execute(link, { operationName: 'post', query: sampleQuery }),
+    );
+    token = 'second';
+    await makePromise<Result>(
+      execute(link, {
+        operationName: 'post',
+        query: sampleQuery,
+        context: { headers: { 'X-Request': 'context' } },
+      }),
+    );
+
+    const [first, second] = fetchMock
+      .calls('/api/post/1')
+      .map(([url, options]) => {
+        const flattened = {};
+        options.headers.forEach((value, key) => {
+          flattened[key] = value;
+        });
+        return flattened;
+      });
+    expect(first).toEqual({ authorization: 'Bearer first' });
+    expect(second).toEqual({
+      authorization: 'Bearer second',
+      'x-request': 'context',
+    });
+    expect(headers.mock.calls[0][0].operationName).toBe('post');
+  });
+
+  it('lets per-directive headers replace the provided ones', async () => {
+    expect.assertions(2);
+
+    const link = new RestLink({
+      uri: '/api',
+      headers: () => ({ Accept: 'application/json', 'X-Client': 'web' }),
+    });
+    fetchMock.get('/api/report', {
+      body: 'id,title',
+      headers: { 'Content-Type': 'text/csv' },
+    });
+
+    const reportQuery = gql`
+      query report {
+        report
+          @rest(type: "String", path: "/report", headers: ["Accept: text/csv"])
+      }
+    `;
+
+    await makePromise<Result>(
+      execute(link, { operationName: 'report', query: reportQuery }),
+    );
+
+    const { headers } = fetchMock.lastCall('/api/report')[1];
+    expect(headers.get('Accept')).toBe('text/csv');
+    expect(headers.get('X-Client')).toBe('web');
+  });
+
+  it('refreshes the token once & retries unauthorized requests', async () => {
+    expect.assertions(3);
+
+    let token = 'expired';
+    const refreshToken = jest.fn(
+      () =>
+        new Promise(resolve =>
+          setTimeout(() => {
+            token = 'fresh';
+            resolve();
+          }, 1),
+        ),
+    );
+    const link = new RestLink({
+      uri: '/api',
+      headers: () => ({ Authorization: `Bearer ${token}` }),
+      refreshToken,
+    });
+    const respond = (url, options) =>
+      options.headers.get('Authorization') === 'Bearer fresh'
+        ? { id: url.slice(-1) }
+        : 401;
+    fetchMock.get('/api/post/1', respond).get('/api/post/2', respond);
+
+    const postsQuery = gql`
+      query posts {
+        first @rest(type: "Post", path: "/post/1") {
+          id
+        }
+        second @rest(type: "Post", path: "/post/2") {
+          id
+        }
+      }
+    `;
+
+    const { data } = await makePromise<Result>(
+      execute(link, { operationName: 'posts', query: postsQuery }),
+    );
+
+    expect(data.first.id).toBe('1');
+    expect(data.second.id).toBe('2');
+    expect(refreshToken).toHaveBeenCalledTimes(1);
+  });
+
+  it('only retries once', async () => {
+    expect.assertions(2);
+
+    const refreshToken = jest.fn(() => Promise.resolve());
+    const link = new RestLink({ uri: '/api', refreshToken });
+    fetchMock.get('/api/post/1', 401);
+
+    try {
+      await makePromise<Result>(
+        execute(link, { operationName: 'post', query: sampleQuery }),
+      );
+    } catch (error) {
+      expect(error.statusCode).toBe(401);
+      expect(fetchMock.calls('/api/post/1').length).toBe(2);
+    }
+  });
+});
+
+describe('Nested type hints', () => {
+  afterEach(() => {
+    fetchMock.restore();
+  });
+
+  const user = {
+    id: 1,
+    address: { city: 'Paris' },
+    friends: [{ id: 2, address: { city: 'Lyon' } }],
+  };
+
+  it('patches nested types from the typeMap of the directive', async () => {
+    expect.assertions(1);
+
+    const link = new RestLink({ uri: '/api' });
+    fetchMock.get('/api/users/1', user);
+
+    const userQuery = gql`
+      query user {
+        user
+          @rest(
+            type: "User"
+            path: "/users/1"
+            typeMap: { address: "Address", friends: "[User]" }
+          ) {
+          id
+          address {
+            city
+          }
+          friends {
+            id
+            address {
+              city
+            }
+          }
+        }
+      }
+    `;
+
+    const { data } = await makePromise<Result>(
+      execute(link, { operationName: 'user', query: userQuery }),
+    );
+
+    expect(data.user).toEqual({
+      __typename: 'User',
+      id: 1,
+      address: { __typename: 'Address', city: 'Paris' },
+      friends: [
+        {
+          __typename: 'User',
+          id: 2,
+          address: { __typename: 'Address', city: 'Lyon' },
+        },
+      ],
+    });
+  });
+
+  it('patches nested types from @type(name:), through the typePatcher', async () => {
+    expect.assertions(1);
+
+    const link = new RestLink({
+      uri: '/api',
+      typePatcher: {
+        Location: (data: any) => ({ ...data, country: 'France' }),
+      },
+    });
+    fetchMock.get('/api/users/1', user);
+
+    const userQuery = gql`
+      query user($addressType: String!) {
+        user
+          @rest(
+            type: "User"
+            path: "/users/1"
+            typeMap: { address: "Address" }
+          ) {
+          id
+          address @type(name: "Location") {
+            city
+            country
+          }
+          friends @type(name: "[User]") {
+            id
+            address @type(name: $addressType) {
+              city
+            }
+          }
+        }
+      }
+    `;
+
+    const { data } = await makePromise<Result>(
+      execute(link, {
+        operationName: 'user',
+        query: userQuery,
+        variables: { addressType: 'Address' },
+      }),
+    );
+
+    expect(data.user).toEqual({
+      __typename: 'User',
+      id: 1,
+      address: { __typename: 'Location', city: 'Paris', country: 'France' },
+      friends: [
+        {
+          __typename: 'User',
+          id: 2,
+          address: { __typename: 'Address', city: 'Lyon' },
+        },
+      ],
+    });
+  });
+});
+
+describe('Polymorphic responses', () => {
+  afterEach(() => {
+    fetchMock.restore();
+  });
+
+  it('sets each entry’s type by its discriminator & only fills in its fragments', async () => {
+    expect.assertions(1);
+
+    const link = new RestLink({
+      uri: '/api',
+      typePatcher: {
+        Photo: (data: any) => ({ ...data, url: `/media${data.url}` }),
+      },
+    });
+    fetchMock.get('/api/timeline', [
+      { id: 1, kind: 'post' },
+      { id: 2, kind: 'photo', url: '/2.jpg' },
+      { id: 3, kind: 'event' },
+    ]);
+
+    const timelineQuery = gql`
+      query timeline {
+        timeline
+          @rest(
+            type: "[TimelineItem]"
+            path: "/timeline"
+            discriminator: "kind"
+            types: { post: "Post", photo: "Photo" }
+          ) {
+          id
+          ... on Post {
+            title
+          }
+          ... on Photo {
+            url
+          }
+        }
+      }
+    `;
+
+    const { data } = await makePromise<Result>(
+      execute(link, { operationName: 'timeline', query: timelineQuery }),
+    );
+
+    expect(data.timeline).toEqual([
+      { __typename: 'Post', id: 1, title: null },
+      { __typename: 'Photo', id: 2, url: '/media/2.jpg' },
+      { __typename: 'TimelineItem', id: 3 },
+    ]);
+  });
+
+  it('uses the discriminator as the typename without types', async () => {
+    expect.assertions(1);
+
+    const link = new RestLink({ uri: '/api' });
+    fetchMock.get('/api/timeline', [{ id: 1, type: 'Post' }]);
+
+    const timelineQuery = gql`
+      fragment PostFields on Post {
+        title
+      }
+
+      query timeline {
+        timeline
+          @rest(
+            type: "[TimelineItem]"
+            path: "/timeline"
+            discriminator: "type"
+          ) {
+          id
+          ...PostFields
+        }
+      }
+    `;
+
+    const { data } = await makePromise<Result>(
+      execute(link, { operationName: 'timeline', query: timelineQuery }),
+    );
+
+    expect(data.timeline).toEqual([{ __typename: 'Post', id: 1, title: null }]);
+  });
+});
+
+describe('Strict mode', () => {
+  afterEach(() => {
+    fetchMock.restore();
+  });
+
+  const userQuery = gql`
+    query user {
+      user
+        @rest(type: "User", path: "/users/1", typeMap: { friends: "[User]" }) {
+        id
+        name @required
+        email
+        address {
+          city
+        }
+        friends {
+          id
+        }
+        tags
+      }
+    }
+  `;
+  const user = {
+    id: 1,
+    name: null,
+    address: 'Paris',
+    friends: { id: 2 },
+    tags: [{ name: 'admin' }],
+  };
+
+  it('fails fields whose response does not match the query', async () => {
+    expect.assertions(3);
+
+    const link = new RestLink({ uri: '/api', strict: 'error' });
+    fetchMock.get('/api/users/1', user);
+
+    try {
+      await makePromise<Result>(
+        execute(link, { operationName: 'user', query: userQuery }),
+      );
+    } catch (error) {
+      expect(error.name).toEqual('ValidationError');
+      expect(error.problems).toEqual([
+        { message: 'Unexpected null at user.name', path: ['user', 'name'] },
+        { message: 'Missing field at user.email', path: ['user', 'email'] },
+        {
+          message: 'Expected an object but got a string at user.address',
+          path: ['user', 'address'],
+        },
+        {
+          message: 'Expected a list but got an object at user.friends',
+          path: ['user', 'friends'],
+        },
+        {
+          message: 'Expected a scalar but got a list at user.tags',
+          path: ['user', 'tags'],
+        },
+      ]);
+      expect(error.message).toMatch(
+        /^The response doesn't match the query: Unexpected null at user.name, /,
+      );
+    }
+  });
+
+  it('accepts lists for a type without brackets', async () => {
+    expect.assertions(1);
+
+    const link = new RestLink({ uri: '/api', strict: 'error' });
+    fetchMock.get('/api/posts', [{ id: 1 }, { id: 2 }]);
+
+    const postsQuery = gql`
+      query posts {
+        posts @rest(type: "Post", path: "/posts") {
+          id
+        }
+      }
+    `;
+
+    const { data } = await makePromise<Result>(
+      execute(link, { operationName: 'posts', query: postsQuery }),
+    );
+
+    expect(data.posts).toEqual([
+      { __typename: 'Post', id: 1 },
+      { __typename: 'Post', id: 2 },
+    ]);
+  });
+
+  it('can collect the problems as warnings, per directive', async () => {
+    expect.assertions(2);
+
+    const link = new RestLink({ uri: '/api', strict: 'error' });
+    fetchMock.get('/api/users/1', { id: 1, name: 'Jane' });
+    fetchMock.get('/api/posts', [{ id: 1 }, { id: 2, title: 'Hello' }]);
+
+    const query = gql`
+      query userAndPosts {
+        user @rest(type: "User", path: "/users/1", strict: false) {
+          id
+          name
+          email
+        }
+        posts @rest(type: "[Post]", path: "/posts", strict: "warn") {
+          id
+          title
+        }
+      }
+    `;
+
+    const result = await makePromise<Result>(
+      execute(link, { operationName: 'userAndPosts', query }),
+    );
+
+    expect(result.data).toEqual({
+      user: { __typename: 'User', id: 1, name: 'Jane', email: null },
+      posts: [
+        { __typename: 'Post', id: 1, title: null },
+        { __typename: 'Post', id: 2, title: 'Hello' },
+      ],
+    });
+    expect(result.extensions).toEqual({
+      warnings: [
+        {
+          message: 'Missing field at posts.0.title',
+          path: ['posts', 0, 'title'],
+        },
+      ],
+    });
+  });
+});
+
+describe('Custom scalars', () => {
+  afterEach(() => {
+    fetchMock.restore();
+  });
+
+  const DateTime: RestLink.Scalar = {
+    parse: value => new Date(value),
+    serialize: (value: Date) => value.toISOString(),
+  };
+  const Cents: RestLink.Scalar = {
+    parse: value => Math.round(Number(value) * 100),
+    serialize: (value: number) => (value / 100).toFixed(2),
+  };
+
+  it('parses fields by their type in the schema', async () => {
+    expect.assertions(2);
+
+    const link = new RestLink({
+      uri: '/api',
+      schema: `
+        scalar DateTime
+        type Post {
+          id: ID
+          publishedAt: DateTime
+          comments: [Comment]
+        }
+        type Comment {
+          editedAt: [DateTime!]
+        }
+      `,
+      scalars: { DateTime },
+    });
+    fetchMock.get('/api/posts/1', {
+      id: '1',
+      publishedAt: '2018-01-02T03:04:05.000Z',
+      comments: [{ editedAt: ['2018-01-03T00:00:00.000Z', null] }],
+    });
+
+    const postQuery = gql`
+      query post {
+        post @rest(type: "Post", path: "/posts/1") {
+          id
+          publishedAt
+          comments {
+            editedAt
+          }
+        }
+      }
+    `;
+
+    const { data } = await makePromise<Result>(
+      execute(link, { operationName: 'post', query: postQuery }),
+    );
+
+    expect(data.post.publishedAt).toEqual(new Date('2018-01-02T03:04:05.000Z'));
+    expect(data.post.comments[0].editedAt).toEqual([
+      new Date('2018-01-03T00:00:00.000Z'),
+      null,
+    ]);
+  });
+
+  it('parses & serializes fields named by typeMap & @type', async () => {
+    expect.assertions(3);
+
+    const link = new RestLink({ uri: '/api', scalars: { Cents } });
+    fetchMock.post('/api/products', {
+      id: 1,
+      price: '9.99',
+      history: ['8.50', '9.00'],
+    });
+
+    const createProduct = gql`
+      mutation createProduct($input: ProductInput!) {
+        product(input: $input)
+          @rest(
+            type: "Product"
+            path: "/products"
+            method: "POST"
+            typeMap: { price: "Cents" }
+          ) {
+          id
+          price
+          history @type(name: "[Cents]")
+        }
+      }
+    `;
+    const input = { name: 'Lamp', price: 999 };
+
+    const { data } = await makePromise<Result>(
+      execute(link, {
+        operationName: 'createProduct',
+        query: createProduct,
+        variables: { input },
+      }),
+    );
+
+    expect(data.product).toEqual({
+      __typename: 'Product',
+      id: 1,
+      price: 999,
+      history: [850, 900],
+    });
+    expect(JSON.parse(fetchMock.lastCall('/api/products')[1].body)).toEqual({
+      name: 'Lamp',
+      price: '9.99',
+    });
+    expect(input.price).toBe(999);
+  });
+});
+
 describe('Apollo client integration', () => {
   afterEach(() => {
     fetchMock.restore();
@@ -3,10 +3,15 @@ import {
   OperationDefinitionNode,
   FragmentDefinitionNode,
   // Query Nodes
+  DocumentNode,
   DirectiveNode,
   FieldNode,
   SelectionSetNode,
+  NamedTypeNode,
+  // Schema
+  GraphQLSchema,
 } from 'graphql';
+import { parse, print } from 'graphql/language';
 import {
   ApolloLink,
   Observable,
@@ -24,10 +29,16 @@ import {
   isField,
   isInlineFragment,
   resultKeyNameFromField,
+  getDirectiveInfoFromField,
 } from 'apollo-utilities';
 import { graphql, ExecInfo } from 'graphql-anywhere/lib/async';
 import { Resolver } from 'graphql-anywhere';
 
+// Not yet part of the DOM typings shipped with our TypeScript version
+declare const TextDecoder: any;
+declare const AbortController: any;
+declare const sessionStorage: Storage;
+
 export namespace RestLink {
   export type URI = string;
 
@@ -44,6 +55,11 @@ export namespace RestLink {
 
   export type HeadersMergePolicy = (...headerGroups: Headers[]) => Headers;
 
+  /** Provides the link's headers, evaluated for every request (e.g. to add the current token) */
+  export type HeadersProvider = (
+    operation: Operation,
+  ) => InitializationHeaders | Promise<InitializationHeaders>;
+
   export interface FieldNameNormalizer {
     (fieldName: string, keypath?: string[]): string;
   }
@@ -57,11 +73,260 @@ export namespace RestLink {
     [typename: string]: FunctionalTypePatcher;
   }
 
+  /** Converts the values of a custom scalar, e.g. ISO strings to `Date`s for a `DateTime` */
+  export interface Scalar {
+    /** Turns a response value into the field's value */
+    parse(value: any): any;
+    /** Turns a value of a request body into what's sent */
+    serialize(value: any): any;
+  }
+  export interface Scalars {
+    [typename: string]: Scalar;
+  }
+
+  /**
+   * How arrays are serialized into query strings:
+   * - `repeat`: `a=1&a=2`
+   * - `brackets`: `a[]=1&a[]=2`
+   * - `comma`: `a=1,2`
+   */
+  export type QueryParamsArrayFormat = 'repeat' | 'brackets' | 'comma';
+
   export type CustomFetch = (
     request: RequestInfo,
     init: RequestInit,
   ) => Promise<Response>;
 
+  /** The body to send & the headers to send it with, as returned by a @see Serializer */
+  export interface SerializedBody {
+    body: any;
+    headers: Headers;
+  }
+
+  /** Turns a (denormalized) request body into what's sent over the wire, setting its Content-Type */
+  export interface Serializer {
+    (data: any, headers: Headers): SerializedBody;
+  }
+
+  /** Serializers available by name, to @see Options.bodySerializer & @see DirectiveOptions.bodySerializer */
+  export interface Serializers {
+    [key: string]: Serializer;
+  }
+
+  /**
+   * What happens when a @rest call fails, matching Apollo's errorPolicy:
+   * - `none`: the whole operation fails with the error
+   * - `all`: the failed field resolves to null & its error is reported in the result's `errors`
+   */
+  export type ErrorPolicy = 'none' | 'all';
+
+  /**
+   * How responses that don't match the query are reported in strict mode:
+   * - `error`: the field fails with a @see ValidationError
+   * - `warn`: the problems are collected in the result's `extensions.warnings`
+   */
+  export type ValidationMode = 'error' | 'warn';
+
+  /** Where & how a response doesn't match the query, @see ValidationMode */
+  export interface ValidationProblem {
+    message: string;
+    /** Path of the offending value, starting at the GraphQL field, e.g. `['user', 'friends', 0]` */
+    path: (string | number)[];
+  }
+
+  /**
+   * The HTTP methods each type of operation may use, @see Options.allowedMethods
+   */
+  export interface AllowedMethods {
+    /** @default `['GET', 'HEAD', 'OPTIONS']` */
+    query?: string[];
+    /** @default `['POST', 'PUT', 'PATCH', 'DELETE']` */
+    mutation?: string[];
+    /** @default `['GET']` */
+    subscription?: string[];
+  }
+
+  /** How failed requests are retried, @see Options.retry */
+  export interface RetryOptions {
+    /**
+     * The maximum number of attempts, including the first one
+     * @default 3
+     */
+    max?: number;
+    /**
+     * Milliseconds to wait before the first retry, doubled for every following one
+     * @default 300
+     */
+    initialDelay?: number;
+    /**
+     * Upper bound for the delay between attempts, also caps `Retry-After`
+     * @default 10000
+     */
+    maxDelay?: number;
+    /**
+     * Randomizes each delay between 0 & its computed value, so clients don't retry in lockstep
+     * @default true
+     */
+    jitter?: boolean;
+    /**
+     * HTTP methods that may be retried, add non-idempotent ones like POST at your own risk!
+     * @default `['GET', 'HEAD', 'OPTIONS', 'PUT', 'DELETE']`
+     */
+    methods?: string[];
+    /**
+     * Decides whether a failed attempt is retried
+     * @default retries network errors & 408, 429, 502, 503 and 504 responses
+     */
+    retryIf?: (error: any, attempt: number) => boolean;
+  }
+
+  /**
+   * How the @rest calls of many parents are merged into a single request, @see DirectiveOptions.batch
+   * e.g. `/friends/:id` for each user becomes one `/friends?ids=1,2,3`
+   */
+  export interface BatchOptions {
+    /** The arg or @export-ed variable whose values are collected, e.g. `id` */
+    key: string;
+    /** Path of the batched request, other placeholders are interpolated like @see DirectiveOptions.path */
+    path: string;
+    /**
+     * Query param the collected keys are sent in
+     * @default the `key`
+     */
+    param?: string;
+    /**
+     * How the collected keys are serialized
+     * @default `comma`
+     */
+    arrayFormat?: QueryParamsArrayFormat;
+    /**
+     * When the response is an array: the property of each item that holds its parent's key.
+     * Otherwise the response is expected to be an object keyed by the collected keys.
+     * @default the `key`
+     */
+    matchBy?: string;
+    /**
+     * Each parent gets every matching item, instead of the first one
+     * @default false
+     */
+    many?: boolean;
+    /**
+     * Picks a parent's result out of the batched response, instead of `matchBy`
+     */
+    split?: (data: any, key: any) => any;
+  }
+
+  /** What's known about a response besides its body, @see DirectiveOptions.responseMeta */
+  export interface ResponseMeta {
+    status: number;
+    statusText: string;
+    url: string;
+    /** The response headers, by their lowercased name */
+    headers: { [name: string]: string };
+    /** URLs of the `Link` header, by their `rel`, e.g. `next` & `last` */
+    links: { [rel: string]: string };
+    /** The `X-Total-Count` header, or null if there's none */
+    totalCount: number | null;
+  }
+
+  /** A response stored by the HTTP cache, @see Options.httpCache */
+  export interface HttpCacheEntry {
+    status: number;
+    statusText: string;
+    headers: { [name: string]: string };
+    /** The body, as text */
+    body: string;
+    /** When the response was stored or last revalidated, in milliseconds since the epoch */
+    date: number;
+    /** Seconds after `date` the response can be used without revalidating it */
+    maxAge: number;
+    /** Values of the request headers the response `Vary`s on, it's only reused when they match */
+    vary: { [name: string]: string | null };
+  }
+
+  /**
+   * Where the HTTP cache stores responses, by URL. Either method may be async,
+   * e.g. to use IndexedDB.
+   */
+  export interface HttpCacheStorage {
+    get(
+      key: string,
+    ):
+      | HttpCacheEntry
+      | null
+      | undefined
+      | Promise<HttpCacheEntry | null | undefined>;
+    set(key: string, entry: HttpCacheEntry): void | Promise<void>;
+  }
+
+  /**
+   * How to read response bodies:
+   * - `json` & `text` parse the body into a JSON value or a string
+   * - `blob` & `arrayBuffer` hand over the raw body, e.g. for downloads
+   */
+  export type ResponseType = 'json' | 'text' | 'blob' | 'arrayBuffer';
+
+  /**
+   * Receives the parsed body of a successful response (and the Response itself),
+   * and returns the value to use as the field's result, e.g. to unwrap envelopes
+   */
+  export interface ResponseTransformer {
+    (data: any, response: Response): any | Promise<any>;
+  }
+
+  /** A fully built request, as handed to @see RequestInterceptor */
+  export interface RequestParams {
+    url: string;
+    method: string;
+    headers: Headers;
+    /** The serialized body, if any */
+    body?: any;
+    credentials?: RequestCredentials;
+    /** AbortSignal that cancels this request, where AbortController is supported */
+    signal?: any;
+  }
+
+  /**
+   * Can rewrite a request before it's sent, by returning a modified copy of it,
+   * or short-circuit the network entirely by returning a (synthetic) Response.
+   */
+  export interface RequestInterceptor {
+    (request: RequestParams, directiveOptions: DirectiveOptions):
+      | RequestParams
+      | Response
+      | Promise<RequestParams | Response>;
+  }
+
+  /**
+   * Can inspect or replace a Response before the link processes it.
+   * This runs before the HTTP status check, so errors can be handled here too.
+   */
+  export interface ResponseInterceptor {
+    (
+      response: Response,
+      request: RequestParams,
+      directiveOptions: DirectiveOptions,
+    ): Response | Promise<Response>;
+  }
+
+  /**
+   * Used when a request takes longer than its @see Options.timeout
+   * - its `name` is `TimeoutError`
+   */
+  export type TimeoutError = Error & {
+    /** The timeout that was exceeded, in milliseconds */
+    timeout: number;
+    url: string;
+  };
+
+  /**
+   * Used when a response doesn't match the query in strict `error` mode
+   * - its `name` is `ValidationError`
+   */
+  export type ValidationError = Error & {
+    problems: ValidationProblem[];
+  };
+
   /**
    * Used for any Error from the server when requests:
    * - terminate with HTTP Status >= 300
@@ -69,8 +334,18 @@ export namespace RestLink {
    */
   export type ServerError = Error & {
     response: Response;
+    /** The unparsed body of the response */
     result: Promise<string>;
     statusCode: number;
+    /** The body of the response, parsed if it's JSON, otherwise the raw text */
+    parsedBody: any;
+    /** The URL & HTTP method of the failed request */
+    url: string;
+    method: string;
+    /** Key of the endpoint the request was sent to */
+    endpoint: string;
+    /** Path to the GraphQL field whose @rest call failed */
+    path: (string | number)[];
   };
 
   export type Options = {
@@ -87,9 +362,10 @@ export namespace RestLink {
     endpoints?: Endpoints;
 
     /**
-     * An object representing values to be sent as headers on the request.
+     * An object representing values to be sent as headers on the request,
+     * or a function providing them for every request. @see HeadersProvider
      */
-    headers?: InitializationHeaders;
+    headers?: InitializationHeaders | HeadersProvider;
 
     /**
      * A function that takes the response field name and converts it into a GraphQL compliant name
@@ -120,6 +396,22 @@ export namespace RestLink {
      */
     typePatcher?: TypePatcherTable;
 
+    /**
+     * SDL (or a GraphQLSchema) describing the types of your REST responses, used to set the
+     * `__typename` of nested objects & lists by their field types, with no patchers to write.
+     * Runs after the @see typePatcher, and leaves any `__typename` that's already set alone.
+     */
+    schema?: string | GraphQLSchema;
+
+    /**
+     * Custom scalars by name. Fields use them by their type in the @see schema,
+     * or by `typeMap` & `@type(name:)` hints, @see DirectiveOptions.typeMap
+     * - response values are parsed once normalized & type-patched
+     * - request body values are serialized before the @see fieldNameDenormalizer runs,
+     *   by the `typeMap` of the @rest directive
+     */
+    scalars?: Scalars;
+
     /**
      * The credentials policy you want to use for the fetch call.
      */
@@ -129,6 +421,103 @@ export namespace RestLink {
      * Use a custom fetch to handle REST calls.
      */
     customFetch?: CustomFetch;
+
+    /**
+     * Run in order on every request before it's sent, e.g. to sign or trace requests.
+     * @see RequestInterceptor
+     */
+    requestInterceptors?: RequestInterceptor[];
+
+    /**
+     * Run in order on every response before it's processed, e.g. to unwrap payloads.
+     * @see ResponseInterceptor
+     */
+    responseInterceptors?: ResponseInterceptor[];
+
+    /**
+     * Transforms every parsed response body into the field's result, e.g. to strip envelopes
+     * like `{ data: {...}, meta: {...} }`.
+     *
+     * @note This is called *before* @see fieldNameNormalizer, so it sees the server's field names.
+     */
+    responseTransformer?: ResponseTransformer;
+
+    /**
+     * The serializer (or the name of one) to use for request bodies.
+     * Built in are `json`, `form` (application/x-www-form-urlencoded) & `multipart` (FormData).
+     * @default `json`
+     */
+    bodySerializer?: Serializer | string;
+
+    /**
+     * Additional named serializers, to be selected via @see bodySerializer
+     */
+    bodySerializers?: Serializers;
+
+    /**
+     * Report 4xx responses as entries in the result's GraphQL `errors` (with their `path`, and
+     * the @see ServerError details as `extensions`) & resolve their fields to null,
+     * rather than failing the whole operation with a network error.
+     * @default false
+     */
+    clientErrorsAsGraphQLErrors?: boolean;
+
+    /**
+     * What happens when a @rest call fails, can be overridden per-operation via the context.
+     * @see ErrorPolicy
+     * @default `none`
+     */
+    errorPolicy?: ErrorPolicy;
+
+    /**
+     * Validate responses against the selection set instead of patching in nulls silently.
+     * Missing fields, objects vs scalars, non-lists for `[Type]`s & nulls in fields
+     * marked `@required` are reported. Can be overridden (or disabled with `false`) per @rest directive.
+     * @see ValidationMode
+     */
+    strict?: ValidationMode;
+
+    /**
+     * Retry failed requests with exponential backoff, honoring `Retry-After` headers.
+     * Pass `true` for the defaults of @see RetryOptions
+     * @default false
+     */
+    retry?: RetryOptions | boolean;
+
+    /**
+     * Milliseconds after which a request fails with a @see TimeoutError (and is aborted).
+     * Applies to every attempt when retrying.
+     */
+    timeout?: number;
+
+    /**
+     * Cache responses to GET requests as HTTP does: they're reused while `Cache-Control: max-age`
+     * says they're fresh, then revalidated with `If-None-Match`/`If-Modified-Since`.
+     * - `true` or `memory` keeps the 100 last used in memory, for the lifetime of this link
+     * - `localStorage` & `sessionStorage` persist them in Web Storage
+     * - or any other @see HttpCacheStorage
+     * @default false
+     */
+    httpCache?:
+      | boolean
+      | 'memory'
+      | 'localStorage'
+      | 'sessionStorage'
+      | HttpCacheStorage;
+
+    /**
+     * The HTTP methods each type of operation may use, the ones given replace their defaults.
+     * e.g. `{ query: ['GET', 'POST'] }` for read-only search endpoints taking a body.
+     * @see AllowedMethods
+     */
+    allowedMethods?: AllowedMethods;
+
+    /**
+     * Called when a request fails with a `401 Unauthorized`, the request is then retried once.
+     * Concurrent failures share a single call. Pair it with a @see HeadersProvider
+     * so the retried request picks up the refreshed token.
+     */
+    refreshToken?: () => Promise<any>;
   };
 
   /** @rest(...) Directive Options */
@@ -137,11 +526,13 @@ export namespace RestLink {
      * What HTTP method to use.
      * @default `GET`
      */
-    method?: 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+    method?: 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE' | 'HEAD' | 'OPTIONS';
     /** What GraphQL type to name the response */
     type?: string;
     /**
      * What path (including query) to use
+     * - `:name` & `{name}` placeholders are replaced with the URI-encoded arg/export of that name
+     * - `{name?}` placeholders are optional, and dropped with their segment when there is no value
      * - @optional if you provide @see DirectiveOptions.pathBuilder
      */
     path?: string;
@@ -159,6 +550,18 @@ export namespace RestLink {
      *  making a query-string!
      */
     pathBuilder?: (args: object) => string;
+    /**
+     * A map of values to serialize into the query string, appended to the path.
+     * - null & undefined values are omitted
+     * - nested objects use bracket notation: `filter[name]=x`
+     * - keys are passed through the fieldNameDenormalizer
+     */
+    queryParams?: { [key: string]: any };
+    /**
+     * How arrays in queryParams are serialized
+     * @default `repeat`
+     */
+    queryParamsArrayFormat?: RestLink.QueryParamsArrayFormat;
     /**
      * Optional method that constructs a RequestBody out of the Environmental state
      * when processing this @rest(...) call.
@@ -181,6 +584,97 @@ export namespace RestLink {
      * A method to allow insertion of __typename deep in response objects
      */
     typePatcher?: RestLink.FunctionalTypePatcher;
+    /**
+     * Subscriptions only: poll this path every `pollInterval` milliseconds instead of
+     * opening a Server-Sent-Events stream. Results are only emitted when they change.
+     */
+    pollInterval?: number;
+    /**
+     * A per-request response transformer, this permits special endpoints to be unwrapped
+     * differently from the default.
+     * @default Uses RestLink.responseTransformer
+     */
+    responseTransformer?: RestLink.ResponseTransformer;
+    /**
+     * Forces how the response body is read, instead of going by its Content-Type
+     * @default JSON for `application/json`, `+json` & unlabelled bodies, text for any other type
+     *          & `null` for empty bodies
+     */
+    responseType?: RestLink.ResponseType;
+    /**
+     * A per-request body serializer (or the name of one)
+     * @default Uses RestLink.bodySerializer
+     */
+    bodySerializer?: RestLink.Serializer | string;
+    /**
+     * Per-request retry options, merged over RestLink.retry. Pass `false` to disable retries.
+     * @default Uses RestLink.retry
+     */
+    retry?: RestLink.RetryOptions | boolean;
+    /**
+     * A per-request timeout in milliseconds
+     * @default Uses RestLink.timeout
+     */
+    timeout?: number;
+    /**
+     * Per-request strict mode, pass `false` to disable it
+     * @default Uses RestLink.strict
+     */
+    strict?: RestLink.ValidationMode | false;
+    /**
+     * Share the response of identical GET requests that are in flight at the same time
+     * @default true
+     */
+    dedupe?: boolean;
+    /**
+     * Merge this call for every parent resolved in the same tick into a single request
+     * @see BatchOptions
+     */
+    batch?: RestLink.BatchOptions;
+    /**
+     * Resolve to an envelope of the body & the response's metadata instead of just the body:
+     * `{ data, status, statusText, url, headers, links, totalCount }`, see @see ResponseMeta.
+     * The `type` only applies to `data`, the envelope's `__typename` is `RestResponse`.
+     * @default false
+     */
+    responseMeta?: boolean;
+    /**
+     * Follow the `next` links of the `Link` header, concatenating every page's items
+     * until there are at least this many (any extra ones are dropped)
+     */
+    autoPaginate?: number;
+    /**
+     * Add the response's @see ResponseMeta to the result under this key, e.g. to select
+     * `meta { status headers }` next to the body's fields. Its `__typename` is `RestResponseMeta`.
+     * - responses without a body resolve to an object with just the metadata
+     * - ignored for array & scalar results, use @see responseMeta for those
+     */
+    responseMetaKey?: string;
+    /**
+     * Headers for this request only, they replace the operation's headers of the same name.
+     * - either a map, or a list of `Name: value` strings as GraphQL names can't contain dashes
+     * - `$name` in their values is replaced with the variable, arg or @export of that name,
+     *   headers referencing a missing value are left out
+     */
+    headers?: { [name: string]: string } | string[];
+    /**
+     * The `__typename` of nested objects by the name of their field, at any depth,
+     * e.g. `{ address: "Address", friends: "[User]" }`. They go through the @see typePatcher
+     * like the `type` does. `@type(name:)` on a nested selection takes precedence.
+     * Fields of custom scalar types (@see Options.scalars) are parsed & serialized instead.
+     */
+    typeMap?: { [fieldName: string]: string };
+    /**
+     * Field of each object (or list entry) of the result naming its type, for polymorphic
+     * responses like a timeline of posts & photos. Read after the @see fieldNameNormalizer.
+     * - its value is looked up in @see types, or used as the `__typename` without them
+     * - objects without a known value get the `type`
+     */
+    discriminator?: string;
+    /**
+     * The `__typename` for each value of the @see discriminator, e.g. `{ post: "Post" }`
+     */
+    types?: { [value: string]: string };
   }
 }
 
@@ -210,6 +704,128 @@ const addTypeNameToResult = (
   return typePatcher(result, __typename, typePatcher);
 };
 
+/**
+ * Sets the `__typename` of each object of a result by its discriminator field
+ * @param result: The normalized result, or an entry of it
+ * @param discriminator: @see RestLink.DirectiveOptions.discriminator
+ * @param types: @see RestLink.DirectiveOptions.types
+ * @param found: Accumulates the typenames that were set
+ * @returns The typenames that were set
+ */
+const discriminateTypeNames = (
+  result: any,
+  discriminator: string,
+  types: { [value: string]: string } | undefined,
+  found: string[] = [],
+): string[] => {
+  if (Array.isArray(result)) {
+    result.forEach(entry =>
+      discriminateTypeNames(entry, discriminator, types, found),
+    );
+    return found;
+  }
+  if (!isObjectOrArray(result) || result[discriminator] == null) {
+    return found;
+  }
+  const value = String(result[discriminator]);
+  const typename = types == null ? value : types[value];
+  if (typename != null) {
+    result.__typename = typename;
+    if (found.indexOf(typename) === -1) {
+      found.push(typename);
+    }
+  }
+  return found;
+};
+
+/** The field types of each type in a schema, @see schemaToTypeMap */
+interface SchemaTypeMap {
+  [typename: string]: {
+    /** Interfaces & unions, whose objects need their own __typename */
+    isAbstract: boolean;
+    /** Type of each field, as in SDL without `!`, e.g. `[User]` */
+    fields: { [fieldName: string]: string };
+  };
+}
+
+const schemaToTypeMap = (schema: string | GraphQLSchema): SchemaTypeMap => {
+  const types: SchemaTypeMap = {};
+  if (typeof schema === 'string') {
+    parse(schema).definitions.forEach((definition: any) => {
+      switch (definition.kind) {
+        case 'ObjectTypeDefinition':
+        case 'InterfaceTypeDefinition':
+          types[definition.name.value] = {
+            isAbstract: definition.kind === 'InterfaceTypeDefinition',
+            fields: definition.fields.reduce((fields, field) => {
+              fields[field.name.value] = print(field.type).replace(/!/g, '');
+              return fields;
+            }, {}),
+          };
+          return;
+        case 'UnionTypeDefinition':
+          types[definition.name.value] = { isAbstract: true, fields: {} };
+          return;
+        default:
+          return;
+      }
+    });
+    return types;
+  }
+  const typeMap = schema.getTypeMap();
+  Object.keys(typeMap).forEach(typename => {
+    const type: any = typeMap[typename];
+    const fieldMap =
+      typeof type.getFields === 'function' ? type.getFields() : {};
+    types[typename] = {
+      // Only interfaces & unions resolve their type, duck-typed to not import graphql's type system
+      isAbstract: 'resolveType' in type,
+      fields: Object.keys(fieldMap).reduce((fields, fieldName) => {
+        fields[fieldName] = String(fieldMap[fieldName].type).replace(/!/g, '');
+        return fields;
+      }, {}),
+    };
+  });
+  return types;
+};
+
+/**
+ * Sets the `__typename` of the nested objects of a result by the field types of the schema
+ * @param data: The (already type-patched) result, or a nested value of it
+ * @param typename: Type of the data, `[[Type]]` for nested lists
+ * @param types: Field types of the schema
+ */
+const patchTypesFromSchema = (
+  data: any,
+  typename: string,
+  types: SchemaTypeMap,
+): any => {
+  if (Array.isArray(data)) {
+    const elementTypename = popOneSetOfArrayBracketsFromTypeName(typename);
+    return data.map(element =>
+      patchTypesFromSchema(element, elementTypename, types),
+    );
+  }
+  if (!isObjectOrArray(data)) {
+    return data;
+  }
+  const declared = types[typename];
+  if (data.__typename == null && declared != null && !declared.isAbstract) {
+    data.__typename = typename;
+  }
+  // Objects of abstract types may say what they are
+  const type = types[data.__typename] || declared;
+  if (type == null) {
+    return data;
+  }
+  Object.keys(data).forEach(key => {
+    if (type.fields[key] != null) {
+      data[key] = patchTypesFromSchema(data[key], type.fields[key], types);
+    }
+  });
+  return data;
+};
+
 const quickFindRestDirective = (field: FieldNode): DirectiveNode | null => {
   if (field.directives && field.directives.length) {
     return field.directives.find(directive => 'rest' === directive.name.value);
@@ -227,6 +843,7 @@ const quickFindRestDirective = (field: FieldNode): DirectiveNode | null => {
  * @param mainDefinition Parsed Query Definition
  * @param fragmentMap Map of Named Fragments
  * @param currentSelectionSet Current selection set we're filtering by
+ * @param possibleTypes Discriminated typenames, fragments on any other of them are skipped
  */
 function findRestDirectivesThenInsertNullsForOmittedFields(
   resultKey: string,
@@ -234,6 +851,7 @@ function findRestDirectivesThenInsertNullsForOmittedFields(
   mainDefinition: OperationDefinitionNode | FragmentDefinitionNode,
   fragmentMap: FragmentMap,
   currentSelectionSet: SelectionSetNode,
+  possibleTypes: string[] = [],
 ): any[] | object {
   if (current == null || currentSelectionSet == null) {
     return current;
@@ -246,6 +864,7 @@ function findRestDirectivesThenInsertNullsForOmittedFields(
         mainDefinition,
         fragmentMap,
         node.selectionSet,
+        possibleTypes,
       );
     } else if (node.kind === 'FragmentSpread') {
       const fragment = fragmentMap[node.name.value];
@@ -255,6 +874,7 @@ function findRestDirectivesThenInsertNullsForOmittedFields(
         mainDefinition,
         fragmentMap,
         fragment.selectionSet,
+        possibleTypes,
       );
     } else if (isField(node)) {
       const name = resultKeyNameFromField(node);
@@ -265,6 +885,7 @@ function findRestDirectivesThenInsertNullsForOmittedFields(
           mainDefinition,
           fragmentMap,
           node.selectionSet,
+          possibleTypes,
         );
       } else {
         findRestDirectivesThenInsertNullsForOmittedFields(
@@ -273,6 +894,7 @@ function findRestDirectivesThenInsertNullsForOmittedFields(
           mainDefinition,
           fragmentMap,
           node.selectionSet,
+          possibleTypes,
         );
       }
     } else {
@@ -285,6 +907,16 @@ function findRestDirectivesThenInsertNullsForOmittedFields(
   // Return current to have our result pass to next link in async promise chain!
   return current;
 }
+/** Fragments on another of the discriminated types don't apply to an object */
+const fragmentAppliesTo = (
+  typeCondition: NamedTypeNode | undefined,
+  current: any,
+  possibleTypes: string[],
+): boolean =>
+  typeCondition == null ||
+  typeCondition.name.value === current.__typename ||
+  possibleTypes.indexOf(typeCondition.name.value) === -1;
+
 /**
  * Recursively walks a handed object in parallel with the Query SelectionSet,
  *  and inserts `null` for any field that is missing from the response.
@@ -299,12 +931,14 @@ function findRestDirectivesThenInsertNullsForOmittedFields(
  * @param mainDefinition Parsed Query Definition
  * @param fragmentMap Map of Named Fragments
  * @param currentSelectionSet Current selection set we're filtering by
+ * @param possibleTypes Discriminated typenames, fragments on any other of them are skipped
  */
 function insertNullsForAnyOmittedFields(
   current: any[] | object, // currentSelectionSet starts at root, so wait until we're inside a Field tagged with an @rest directive to activate!
   mainDefinition: OperationDefinitionNode | FragmentDefinitionNode,
   fragmentMap: FragmentMap,
   currentSelectionSet: SelectionSetNode,
+  possibleTypes: string[] = [],
 ): void {
   if (current == null || currentSelectionSet == null) {
     return;
@@ -317,25 +951,36 @@ function insertNullsForAnyOmittedFields(
         mainDefinition,
         fragmentMap,
         currentSelectionSet,
+        possibleTypes,
       ),
     );
     return;
   }
+  const appliesTo = (typeCondition?: NamedTypeNode) =>
+    fragmentAppliesTo(typeCondition, current, possibleTypes);
   currentSelectionSet.selections.forEach(node => {
     if (isInlineFragment(node)) {
+      if (!appliesTo(node.typeCondition)) {
+        return;
+      }
       insertNullsForAnyOmittedFields(
         current,
         mainDefinition,
         fragmentMap,
         node.selectionSet,
+        possibleTypes,
       );
     } else if (node.kind === 'FragmentSpread') {
       const fragment = fragmentMap[node.name.value];
+      if (!appliesTo(fragment.typeCondition)) {
+        return;
+      }
       insertNullsForAnyOmittedFields(
         current,
         mainDefinition,
         fragmentMap,
         fragment.selectionSet,
+        possibleTypes,
       );
     } else if (isField(node)) {
       const value = current[node.name.value];
@@ -354,6 +999,7 @@ function insertNullsForAnyOmittedFields(
           mainDefinition,
           fragmentMap,
           node.selectionSet,
+          possibleTypes,
         );
       } else {
         // Other types (string, number) do not need recursive patching!
@@ -367,49 +1013,461 @@ function insertNullsForAnyOmittedFields(
   });
 }
 
-const getURIFromEndpoints = (
-  endpoints: RestLink.Endpoints,
-  endpoint: RestLink.Endpoint,
-): RestLink.URI => {
-  return (
-    endpoints[endpoint || DEFAULT_ENDPOINT_KEY] ||
-    endpoints[DEFAULT_ENDPOINT_KEY]
-  );
-};
-
-const replaceParam = (
-  endpoint: string,
-  name: string,
-  value: string,
-): string => {
-  if (value === undefined || name === undefined) {
-    return endpoint;
+/**
+ * Finds the selectionSet of the REST-directive-attached node named to match this query,
+ *  @see findRestDirectivesThenInsertNullsForOmittedFields
+ */
+function findRestSelectionSet(
+  resultKey: string,
+  fragmentMap: FragmentMap,
+  currentSelectionSet: SelectionSetNode,
+): SelectionSetNode | null {
+  if (currentSelectionSet == null) {
+    return null;
   }
-  return endpoint.replace(`:${name}`, value);
+  let found: SelectionSetNode | null = null;
+  currentSelectionSet.selections.some(node => {
+    if (isInlineFragment(node)) {
+      found = findRestSelectionSet(resultKey, fragmentMap, node.selectionSet);
+    } else if (node.kind === 'FragmentSpread') {
+      const fragment = fragmentMap[node.name.value];
+      found = findRestSelectionSet(
+        resultKey,
+        fragmentMap,
+        fragment.selectionSet,
+      );
+    } else if (
+      resultKeyNameFromField(node) === resultKey &&
+      quickFindRestDirective(node) != null
+    ) {
+      found = node.selectionSet || null;
+    } else {
+      found = findRestSelectionSet(resultKey, fragmentMap, node.selectionSet);
+    }
+    return found != null;
+  });
+  return found;
+}
+
+/** The type of a nested field given by `@type(name:)` or the typeMap of the @rest directive */
+const typeHintOf = (
+  node: FieldNode,
+  typeMap: { [fieldName: string]: string },
+  variables: Record<string, any>,
+): string | undefined => {
+  const directives = getDirectiveInfoFromField(node, variables);
+  return directives && directives.type && directives.type.name != null
+    ? directives.type.name
+    : typeMap[node.name.value];
 };
 
 /**
- * Some keys should be passed through transparently without normalizing/de-normalizing
+ * Recursively walks a handed object in parallel with the Query SelectionSet,
+ *  and patches the `__typename` of nested objects whose field has a `@type(name:)`
+ *  directive or an entry in the typeMap of the @rest directive.
+ *
+ * @param current Current object we're patching
+ * @param fragmentMap Map of Named Fragments
+ * @param currentSelectionSet Current selection set we're filtering by
+ * @param typeMap Types by field name, @see RestLink.DirectiveOptions.typeMap
+ * @param variables Variables of the operation, for `@type(name: $variable)`
+ * @param typePatcher The link's typePatcher, applied to each patched object
+ * @param scalars Custom scalars, whose fields are left to @see parseScalars
  */
-const noMangleKeys = ['__typename'];
-
-/** Recursively descends the provided object tree and converts all the keys */
-const convertObjectKeys = (
-  object: object,
-  __converter: RestLink.FieldNameNormalizer,
-  keypath: string[] = [],
-): object => {
-  let converter: RestLink.FieldNameNormalizer = null;
-  if (__converter.prototype.arity != 2) {
-    converter = (name, keypath) => {
+function addNestedTypeNames(
+  current: any,
+  fragmentMap: FragmentMap,
+  currentSelectionSet: SelectionSetNode,
+  typeMap: { [fieldName: string]: string },
+  variables: Record<string, any>,
+  typePatcher: RestLink.FunctionalTypePatcher,
+  scalars: RestLink.Scalars,
+): void {
+  if (current == null || currentSelectionSet == null) {
+    return;
+  }
+  if (Array.isArray(current)) {
+    current.forEach(c =>
+      addNestedTypeNames(
+        c,
+        fragmentMap,
+        currentSelectionSet,
+        typeMap,
+        variables,
+        typePatcher,
+        scalars,
+      ),
+    );
+    return;
+  }
+  currentSelectionSet.selections.forEach(node => {
+    if (isInlineFragment(node)) {
+      addNestedTypeNames(
+        current,
+        fragmentMap,
+        node.selectionSet,
+        typeMap,
+        variables,
+        typePatcher,
+        scalars,
+      );
+    } else if (node.kind === 'FragmentSpread') {
+      addNestedTypeNames(
+        current,
+        fragmentMap,
+        fragmentMap[node.name.value].selectionSet,
+        typeMap,
+        variables,
+        typePatcher,
+        scalars,
+      );
+    } else if (quickFindRestDirective(node) == null) {
+      // Nested @rest fields get their own type when they're resolved
+      const name = node.name.value;
+      if (!isObjectOrArray(current[name])) {
+        return;
+      }
+      const typename = typeHintOf(node, typeMap, variables);
+      if (typename != null && scalars[namedTypeOf(typename)] == null) {
+        current[name] = addTypeNameToResult(
+          current[name],
+          typename,
+          typePatcher,
+        );
+      }
+      addNestedTypeNames(
+        current[name],
+        fragmentMap,
+        node.selectionSet,
+        typeMap,
+        variables,
+        typePatcher,
+        scalars,
+      );
+    }
+  });
+}
+
+/** The name of a type without its list brackets & `!`, e.g. `DateTime` for `[DateTime!]` */
+const namedTypeOf = (typename: string): string =>
+  typename.replace(/[\[\]!\s]/g, '');
+
+/** Applies a scalar's parse or serialize to a value, or every entry of (nested) lists of them */
+const convertScalarValue = (value: any, convert: (value: any) => any): any => {
+  if (Array.isArray(value)) {
+    return value.map(entry => convertScalarValue(entry, convert));
+  }
+  return value == null ? value : convert(value);
+};
+
+/**
+ * Recursively walks a handed object in parallel with the Query SelectionSet,
+ *  and parses the values of fields whose type is a custom scalar.
+ *
+ * @param current Current object we're parsing
+ * @param fragmentMap Map of Named Fragments
+ * @param currentSelectionSet Current selection set we're filtering by
+ * @param typeMap Types by field name, @see RestLink.DirectiveOptions.typeMap
+ * @param variables Variables of the operation, for `@type(name: $variable)`
+ * @param scalars Custom scalars, @see RestLink.Options.scalars
+ * @param schemaTypes Field types of the link's schema, looked up by `__typename`
+ */
+function parseScalars(
+  current: any,
+  fragmentMap: FragmentMap,
+  currentSelectionSet: SelectionSetNode,
+  typeMap: { [fieldName: string]: string },
+  variables: Record<string, any>,
+  scalars: RestLink.Scalars,
+  schemaTypes: SchemaTypeMap | null,
+): void {
+  if (current == null || currentSelectionSet == null) {
+    return;
+  }
+  const parse = (value: any, selectionSet: SelectionSetNode) =>
+    parseScalars(
+      value,
+      fragmentMap,
+      selectionSet,
+      typeMap,
+      variables,
+      scalars,
+      schemaTypes,
+    );
+  if (Array.isArray(current)) {
+    current.forEach(entry => parse(entry, currentSelectionSet));
+    return;
+  }
+  if (!isObjectOrArray(current)) {
+    return;
+  }
+  currentSelectionSet.selections.forEach(node => {
+    if (isInlineFragment(node)) {
+      parse(current, node.selectionSet);
+    } else if (node.kind === 'FragmentSpread') {
+      parse(current, fragmentMap[node.name.value].selectionSet);
+    } else if (quickFindRestDirective(node) == null) {
+      const name = node.name.value;
+      if (current[name] == null) {
+        return;
+      }
+      const declared =
+        schemaTypes != null ? schemaTypes[current.__typename] : null;
+      const typename =
+        typeHintOf(node, typeMap, variables) ||
+        (declared != null ? declared.fields[name] : null);
+      const scalar = typename != null ? scalars[namedTypeOf(typename)] : null;
+      if (scalar != null) {
+        current[name] = convertScalarValue(current[name], scalar.parse);
+      } else {
+        parse(current[name], node.selectionSet);
+      }
+    }
+  });
+}
+
+/**
+ * Serializes the values of a request body whose field's type is a custom scalar,
+ *  leaving the body (which may be the operation's variables) untouched
+ * @param body The built body, or a nested value of it
+ * @param typeMap Types by field name, @see RestLink.DirectiveOptions.typeMap
+ * @param scalars Custom scalars, @see RestLink.Options.scalars
+ */
+const serializeScalars = (
+  body: any,
+  typeMap: { [fieldName: string]: string },
+  scalars: RestLink.Scalars,
+): any => {
+  if (Array.isArray(body)) {
+    return body.map(entry => serializeScalars(entry, typeMap, scalars));
+  }
+  if (!isObjectOrArray(body)) {
+    return body;
+  }
+  return Object.keys(body).reduce((serialized, key) => {
+    const typename = typeMap[key];
+    const scalar = typename != null ? scalars[namedTypeOf(typename)] : null;
+    serialized[key] =
+      scalar != null
+        ? convertScalarValue(body[key], scalar.serialize)
+        : serializeScalars(body[key], typeMap, scalars);
+    return serialized;
+  }, {});
+};
+
+const describeValue = (value: any): string => {
+  if (Array.isArray(value)) {
+    return 'a list';
+  }
+  return isObjectOrArray(value) ? 'an object' : `a ${typeof value}`;
+};
+
+const containsObject = (value: any): boolean =>
+  Array.isArray(value) ? value.some(containsObject) : isObjectOrArray(value);
+
+/**
+ * Recursively walks a handed object in parallel with the Query SelectionSet,
+ *  like @see insertNullsForAnyOmittedFields, and reports where they disagree.
+ *
+ * @param current Current object we're validating
+ * @param fragmentMap Map of Named Fragments
+ * @param currentSelectionSet Current selection set we're filtering by
+ * @param typename Type of current, e.g. `[User]`, if known
+ * @param path Path of current, starting at the GraphQL field
+ * @param typeMap Types by field name, @see RestLink.DirectiveOptions.typeMap
+ * @param variables Variables of the operation, for `@type(name: $variable)`
+ * @param possibleTypes Discriminated typenames, fragments on any other of them are skipped
+ * @param problems Accumulates the problems found
+ */
+function validateAgainstSelectionSet(
+  current: any,
+  fragmentMap: FragmentMap,
+  currentSelectionSet: SelectionSetNode,
+  typename: string | undefined,
+  path: (string | number)[],
+  typeMap: { [fieldName: string]: string },
+  variables: Record<string, any>,
+  possibleTypes: string[],
+  problems: RestLink.ValidationProblem[] = [],
+): RestLink.ValidationProblem[] {
+  const report = (message: string, at: (string | number)[]) =>
+    problems.push({ message: `${message} at ${at.join('.')}`, path: at });
+  const validate = (
+    value: any,
+    selectionSet: SelectionSetNode,
+    valueTypename: string | undefined,
+    valuePath: (string | number)[],
+  ) =>
+    validateAgainstSelectionSet(
+      value,
+      fragmentMap,
+      selectionSet,
+      valueTypename,
+      valuePath,
+      typeMap,
+      variables,
+      possibleTypes,
+      problems,
+    );
+
+  // Like addTypeNameToResult, a type without brackets (`type: "Post"`) also applies to lists
+  if (typename != null && /^\s*\[/.test(typename) && !Array.isArray(current)) {
+    report(`Expected a list but got ${describeValue(current)}`, path);
+    return problems;
+  }
+  if (Array.isArray(current)) {
+    const entryTypename =
+      typename == null
+        ? undefined
+        : popOneSetOfArrayBracketsFromTypeName(typename);
+    current.forEach((entry, index) => {
+      if (entry != null) {
+        validate(entry, currentSelectionSet, entryTypename, [...path, index]);
+      }
+    });
+    return problems;
+  }
+  if (!isObjectOrArray(current)) {
+    report(`Expected an object but got ${describeValue(current)}`, path);
+    return problems;
+  }
+  currentSelectionSet.selections.forEach(node => {
+    if (isInlineFragment(node)) {
+      if (fragmentAppliesTo(node.typeCondition, current, possibleTypes)) {
+        validate(current, node.selectionSet, undefined, path);
+      }
+    } else if (node.kind === 'FragmentSpread') {
+      const fragment = fragmentMap[node.name.value];
+      if (fragmentAppliesTo(fragment.typeCondition, current, possibleTypes)) {
+        validate(current, fragment.selectionSet, undefined, path);
+      }
+    } else if (
+      node.name.value !== '__typename' &&
+      // Nested @rest fields are validated when they're resolved
+      quickFindRestDirective(node) == null
+    ) {
+      const name = node.name.value;
+      const value = current[name];
+      const fieldPath = [...path, name];
+      const isRequired = (node.directives || []).some(
+        directive => directive.name.value === 'required',
+      );
+      if (value === undefined) {
+        report('Missing field', fieldPath);
+      } else if (value === null) {
+        if (isRequired) {
+          report('Unexpected null', fieldPath);
+        }
+      } else if (node.selectionSet == null) {
+        if (containsObject(value)) {
+          report(
+            `Expected a scalar but got ${describeValue(value)}`,
+            fieldPath,
+          );
+        }
+      } else {
+        validate(
+          value,
+          node.selectionSet,
+          typeHintOf(node, typeMap, variables),
+          fieldPath,
+        );
+      }
+    }
+  });
+  return problems;
+}
+
+const getURIFromEndpoints = (
+  endpoints: RestLink.Endpoints,
+  endpoint: RestLink.Endpoint,
+): RestLink.URI => {
+  return (
+    endpoints[endpoint || DEFAULT_ENDPOINT_KEY] ||
+    endpoints[DEFAULT_ENDPOINT_KEY]
+  );
+};
+
+/**
+ * Matches `{name}`, `{name?}` (optional) & `:name` placeholders in a path template.
+ * Names must start with a letter, so things like `/time/12:00` & `host:8080` aren't placeholders.
+ * The `/` before a braced placeholder is captured so optional segments can be dropped whole.
+ */
+const pathPlaceholderPattern = /(\/?)\{([A-Za-z_$][\w$]*)(\?)?\}|:([A-Za-z_$][\w$]*)/g;
+
+/**
+ * Substitutes every placeholder in the path template with its URI-encoded value
+ *
+ * - Placeholders without a value are unresolved, and so are `null` ones before the query string
+ *   (in the query string, they're sent as `null`).
+ * - Unresolved optional placeholders are dropped, along with their leading `/`
+ *   when they make up a whole path segment.
+ * - Any other unresolved placeholder throws an error listing all of them.
+ */
+const interpolatePath = (template: string, params: object): string => {
+  const unresolved: string[] = [];
+  // The `?` of optional placeholders doesn't start the query string
+  const queryStart = template
+    .replace(pathPlaceholderPattern, placeholder =>
+      placeholder.replace(/\?/g, ' '),
+    )
+    .indexOf('?');
+  const path = template.replace(
+    pathPlaceholderPattern,
+    (
+      placeholder: string,
+      slash: string = '',
+      bracedName: string,
+      optional: string,
+      colonName: string,
+      offset: number,
+    ) => {
+      const name = bracedName || colonName;
+      const value = params[name];
+      const isInQuery = queryStart !== -1 && offset > queryStart;
+      if (value !== undefined && (value !== null || isInQuery)) {
+        return `${slash}${encodeURIComponent(String(value))}`;
+      }
+      if (!optional) {
+        unresolved.push(placeholder.slice(slash.length));
+        return placeholder;
+      }
+      const nextChar = template.charAt(offset + placeholder.length);
+      const isWholeSegment = ['', '/', '?', '#'].indexOf(nextChar) !== -1;
+      return isWholeSegment ? '' : slash;
+    },
+  );
+  if (unresolved.length > 0) {
+    throw new Error(
+      'Missing params to run query, specify it in the query params or use an export directive: ' +
+        unresolved.join(', '),
+    );
+  }
+  return path;
+};
+
+/**
+ * Some keys should be passed through transparently without normalizing/de-normalizing
+ */
+const noMangleKeys = ['__typename'];
+
+/** Recursively descends the provided object tree and converts all the keys */
+const convertObjectKeys = (
+  object: object,
+  __converter: RestLink.FieldNameNormalizer,
+  keypath: string[] = [],
+): object => {
+  let converter: RestLink.FieldNameNormalizer = null;
+  if (__converter.prototype.arity != 2) {
+    converter = (name, keypath) => {
       return __converter(name);
     };
   } else {
     converter = __converter;
   }
 
-  if (object == null || ['string', 'number'].indexOf(typeof object) != -1) {
-    // Object is a scalar, no keys to convert!
+  if (!isObjectOrArray(object)) {
+    // Object is a scalar (or a File, Blob, etc.), no keys to convert!
     return object;
   }
 
@@ -441,119 +1499,1358 @@ const noOpNameNormalizer: RestLink.FieldNameNormalizer = (name: string) => {
   return name;
 };
 
+const serializeQueryParam = (
+  name: string,
+  value: any,
+  arrayFormat: RestLink.QueryParamsArrayFormat,
+  keyConverter: RestLink.FieldNameNormalizer,
+  keypath: string[],
+): string[] => {
+  if (value == null) {
+    return [];
+  }
+  if (Array.isArray(value)) {
+    const values = value.filter(v => v != null);
+    const hasObjects = values.some(v => typeof v === 'object');
+    if (arrayFormat === 'comma' && !hasObjects) {
+      return values.length === 0
+        ? []
+        : [`${name}=${values.map(v => encodeURIComponent(v)).join(',')}`];
+    }
+    return values.reduce(
+      (acc, v, index) =>
+        acc.concat(
+          serializeQueryParam(
+            hasObjects || arrayFormat === 'brackets'
+              ? `${name}[${hasObjects ? index : ''}]`
+              : name,
+            v,
+            arrayFormat,
+            keyConverter,
+            [...keypath, String(index)],
+          ),
+        ),
+      [],
+    );
+  }
+  if (value instanceof Date) {
+    return [`${name}=${encodeURIComponent(value.toISOString())}`];
+  }
+  if (typeof value === 'object') {
+    return Object.keys(value).reduce((acc, key) => {
+      const nestedKeyPath = [...keypath, key];
+      const nestedName = encodeURIComponent(keyConverter(key, nestedKeyPath));
+      return acc.concat(
+        serializeQueryParam(
+          `${name}[${nestedName}]`,
+          value[key],
+          arrayFormat,
+          keyConverter,
+          nestedKeyPath,
+        ),
+      );
+    }, []);
+  }
+  return [`${name}=${encodeURIComponent(String(value))}`];
+};
+
+/**
+ * Serializes a map of values into a URI-encoded query string (without the leading `?`)
+ * @param params: Values to serialize, null & undefined values are omitted
+ * @param arrayFormat: How arrays are serialized @see RestLink.QueryParamsArrayFormat
+ * @param keyConverter: Converts each key, e.g. a fieldNameDenormalizer
+ */
+export const buildQueryString = (
+  params: { [key: string]: any },
+  arrayFormat: RestLink.QueryParamsArrayFormat = 'repeat',
+  keyConverter: RestLink.FieldNameNormalizer = noOpNameNormalizer,
+): string => {
+  return Object.keys(params || {})
+    .reduce(
+      (acc, key) =>
+        acc.concat(
+          serializeQueryParam(
+            encodeURIComponent(keyConverter(key, [key])),
+            params[key],
+            arrayFormat,
+            keyConverter,
+            [key],
+          ),
+        ),
+      [],
+    )
+    .join('&');
+};
+
+/**
+ * Appends a query string to a URL, which may already have one
+ */
+const appendQueryString = (url: string, queryString: string): string => {
+  if (queryString.length === 0) {
+    return url;
+  }
+  const separator = url.indexOf('?') === -1 ? '?' : '&';
+  return `${url}${separator}${queryString}`;
+};
+
+/**
+ * Sends bodies as JSON, the default
+ */
+export const jsonBodySerializer: RestLink.Serializer = (data, headers) => {
+  if (!headers.has('Content-Type')) {
+    headers.set('Content-Type', 'application/json');
+  }
+  return { body: JSON.stringify(data), headers };
+};
+
+/**
+ * Sends bodies as application/x-www-form-urlencoded, nested values use bracket notation
+ */
+export const formBodySerializer: RestLink.Serializer = (data, headers) => {
+  if (!headers.has('Content-Type')) {
+    headers.set('Content-Type', 'application/x-www-form-urlencoded');
+  }
+  return { body: buildQueryString(data), headers };
+};
+
+/**
+ * Sends bodies as multipart/form-data, File & Blob values are uploaded as-is,
+ * arrays are appended once per entry & other objects are sent as JSON.
+ *
+ * The Content-Type header is removed, so fetch can set it along with the multipart boundary.
+ */
+export const multipartBodySerializer: RestLink.Serializer = (data, headers) => {
+  const formData = new FormData();
+  const append = (key: string, value: any) => {
+    if (value == null) {
+      return;
+    }
+    if (typeof Blob !== 'undefined' && value instanceof Blob) {
+      formData.append(key, value);
+    } else if (typeof value === 'object') {
+      formData.append(key, JSON.stringify(value));
+    } else {
+      formData.append(key, String(value));
+    }
+  };
+  Object.keys(data || {}).forEach(key => {
+    const value = data[key];
+    if (Array.isArray(value)) {
+      value.forEach(v => append(key, v));
+    } else {
+      append(key, value);
+    }
+  });
+  headers.delete('Content-Type');
+  return { body: formData, headers };
+};
+
+const DEFAULT_BODY_SERIALIZERS: RestLink.Serializers = {
+  json: jsonBodySerializer,
+  form: formBodySerializer,
+  multipart: multipartBodySerializer,
+};
+
+/**
+ * Helper that makes sure our headers are of the right type to pass to Fetch
+ */
+export const normalizeHeaders = (
+  headers: RestLink.InitializationHeaders,
+): Headers => {
+  // Make sure that our headers object is of the right type
+  if (headers instanceof Headers) {
+    return headers;
+  } else {
+    return new Headers(headers);
+  }
+};
+
+/**
+ * Returns a new Headers Group that contains all the headers.
+ * - If there are duplicates, they will be in the returned header set multiple times!
+ */
+export const concatHeadersMergePolicy: RestLink.HeadersMergePolicy = (
+  ...headerGroups: Headers[]
+): Headers => {
+  return headerGroups.reduce((accumulator, current) => {
+    if (!current) {
+      return accumulator;
+    }
+    if (!current.forEach) {
+      current = normalizeHeaders(current);
+    }
+    current.forEach((value, key) => {
+      accumulator.append(key, value);
+    });
+
+    return accumulator;
+  }, new Headers());
+};
+
+/**
+ * This merge policy deletes any matching headers from the link's default headers.
+ * - Pass headersToOverride array & a headers arg to context and this policy will automatically be selected.
+ */
+export const overrideHeadersMergePolicyHelper = (
+  linkHeaders: Headers,
+  headersToOverride: string[],
+  requestHeaders: Headers | null,
+): Headers => {
+  const result = new Headers();
+  linkHeaders.forEach((value, key) => {
+    if (headersToOverride.indexOf(key) !== -1) {
+      return;
+    }
+    result.append(key, value);
+  });
+  return concatHeadersMergePolicy(result, requestHeaders || new Headers());
+};
+const makeOverrideHeadersMergePolicy = (
+  headersToOverride: string[],
+): RestLink.HeadersMergePolicy => {
+  return (linkHeaders, requestHeaders) => {
+    return overrideHeadersMergePolicyHelper(
+      linkHeaders,
+      headersToOverride,
+      requestHeaders,
+    );
+  };
+};
+
+/**
+ * Builds the headers of a @rest directive, interpolating `$name` references in their values
+ * @param headers: The headers of the directive
+ * @param params: Variables, args & exports to interpolate
+ */
+const interpolateHeaders = (
+  headers: { [name: string]: string } | string[],
+  params: { [key: string]: any },
+): Headers => {
+  const entries: [string, string][] = Array.isArray(headers)
+    ? headers.map((header): [string, string] => {
+        const separator = header.indexOf(':');
+        return [
+          header.slice(0, separator).trim(),
+          header.slice(separator + 1).trim(),
+        ];
+      })
+    : Object.keys(headers).map((name): [string, string] => [
+        name,
+        headers[name],
+      ]);
+  const result = new Headers();
+  entries.forEach(([name, template]) => {
+    if (template == null) {
+      return;
+    }
+    let isMissing = false;
+    const value = String(template).replace(
+      /\$([A-Za-z_][\w]*)/g,
+      (match, key) => {
+        if (params[key] == null) {
+          isMissing = true;
+          return '';
+        }
+        return String(params[key]);
+      },
+    );
+    if (!isMissing) {
+      result.set(name, value);
+    }
+  });
+  return result;
+};
+
+/**
+ * Makes concurrent calls of a function share the promise of the call still pending
+ */
+const sharePendingCall = <T>(fn: () => Promise<T>): (() => Promise<T>) => {
+  let pending: Promise<T> | null = null;
+  return () => {
+    if (pending == null) {
+      const done = () => {
+        pending = null;
+      };
+      pending = Promise.resolve(fn());
+      pending.then(done, done);
+    }
+    return pending;
+  };
+};
+
+/**
+ * Makes a request, and makes it once more after refreshing the token if it was unauthorized
+ * @param makeRequest: Makes the request
+ * @param refreshToken: Refreshes the token, null to not retry
+ */
+const withTokenRefresh = (
+  makeRequest: () => Promise<Response>,
+  refreshToken: (() => Promise<any>) | null,
+): Promise<Response> =>
+  makeRequest().catch(error => {
+    if (refreshToken == null || error.statusCode !== 401) {
+      throw error;
+    }
+    return refreshToken().then(() => makeRequest());
+  });
+
+const DEFAULT_ALLOWED_METHODS: RestLink.AllowedMethods = {
+  query: ['GET', 'HEAD', 'OPTIONS'],
+  mutation: ['POST', 'PUT', 'PATCH', 'DELETE'],
+  subscription: ['GET'],
+};
+
+/** HTTP methods whose requests don't have a body */
+const METHODS_WITHOUT_BODY = ['GET', 'DELETE', 'HEAD', 'OPTIONS'];
+
+export const validateRequestMethodForOperationType = (
+  method: string,
+  operationType: OperationTypeNode,
+  allowedMethods: RestLink.AllowedMethods = DEFAULT_ALLOWED_METHODS,
+): void => {
+  const allowed = (allowedMethods[operationType] ||
+    DEFAULT_ALLOWED_METHODS[operationType]
+  ).map(allowedMethod => allowedMethod.toUpperCase());
+  if (allowed.indexOf(method.toUpperCase()) !== -1) {
+    return;
+  }
+  if (operationType === 'mutation') {
+    throw new Error('"mutation" operations do not support that HTTP-verb');
+  }
+  const quoted = allowed.map(allowedMethod => `"${allowedMethod}"`);
+  const supported =
+    quoted.length > 1
+      ? `${quoted.slice(0, -1).join(', ')} or ${quoted[quoted.length - 1]}`
+      : quoted[0];
+  throw new Error(
+    `A "${operationType}" operation can only support ${supported} requests but got "${method}".`,
+  );
+};
+
+/**
+ * Utility to build & throw a JS Error from a "failed" REST-response
+ * @param response: HTTP Response object for this request
+ * @param request: The request that failed
+ * @param endpoint: Key of the endpoint the request was sent to
+ * @param path: Path to the GraphQL field that made the request
+ * @param message: Human-facing error message
+ */
+const rethrowServerSideError = (
+  response: Response,
+  request: RestLink.RequestParams,
+  endpoint: string,
+  path: (string | number)[],
+  message: string,
+): Promise<never> => {
+  return response.text().then(bodyText => {
+    const error = new Error(message) as RestLink.ServerError;
+
+    error.response = response;
+    error.statusCode = response.status;
+    error.result = Promise.resolve(bodyText);
+    try {
+      error.parsedBody = JSON.parse(bodyText);
+    } catch (parseError) {
+      error.parsedBody = bodyText;
+    }
+    error.url = request.url;
+    error.method = request.method;
+    error.endpoint = endpoint;
+    error.path = path;
+
+    throw error;
+  });
+};
+
+/**
+ * The ServerError of a request shared by several fields (deduped or batched) carries the
+ * path of the field that made it, every other field gets a copy with its own path
+ */
+const withErrorPath = (error: any, path: (string | number)[]): any => {
+  if (error.statusCode == null || error.path === path) {
+    return error;
+  }
+  const copy = new Error(error.message) as RestLink.ServerError;
+  Object.keys(error).forEach(key => (copy[key] = error[key]));
+  copy.path = path;
+  return copy;
+};
+
+/**
+ * Passes successful responses through, and rejects with a @see RestLink.ServerError otherwise
+ */
+const checkResponseStatus = (
+  response: Response,
+  request: RestLink.RequestParams,
+  endpoint: string,
+  path: (string | number)[],
+): Promise<Response> => {
+  if (response.status >= 300) {
+    // Throw a JSError, that will be available under the
+    // "Network error" category in apollo-link-error
+    return rethrowServerSideError(
+      response,
+      request,
+      endpoint,
+      path,
+      `Response not successful: Received status code ${response.status}`,
+    );
+  }
+  return Promise.resolve(response);
+};
+
+const DEFAULT_RETRY_OPTIONS: RestLink.RetryOptions = {
+  max: 3,
+  initialDelay: 300,
+  maxDelay: 10000,
+  jitter: true,
+  methods: ['GET', 'HEAD', 'OPTIONS', 'PUT', 'DELETE'],
+  retryIf: error =>
+    error.statusCode == null ||
+    [408, 429, 502, 503, 504].indexOf(error.statusCode) !== -1,
+};
+
+/** Merges the per-request retry options over the link's, null when retries are disabled */
+const mergeRetryOptions = (
+  linkLevel: RestLink.RetryOptions | boolean,
+  perRequest: RestLink.RetryOptions | boolean,
+): RestLink.RetryOptions | null => {
+  if (perRequest === false || (!linkLevel && !perRequest)) {
+    return null;
+  }
+  return {
+    ...DEFAULT_RETRY_OPTIONS,
+    ...typeof linkLevel === 'object' ? linkLevel : {},
+    ...typeof perRequest === 'object' ? perRequest : {},
+  };
+};
+
+/** Milliseconds a `Retry-After` header asks us to wait, null if there isn't a valid one */
+const parseRetryAfter = (error: any): number | null => {
+  const response: Response = error.response;
+  const retryAfter =
+    response && response.headers && response.headers.get('Retry-After');
+  if (retryAfter == null) {
+    return null;
+  }
+  const seconds = Number(retryAfter);
+  if (!isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+  const date = Date.parse(retryAfter);
+  return isNaN(date) ? null : Math.max(0, date - Date.now());
+};
+
+/**
+ * Makes a request, retrying it as described by the retry options
+ * @param attempt: Makes one attempt at the request, rejecting if it failed
+ * @param method: HTTP method of the request, only the retry option's methods are retried
+ * @param retry: Retry options, null to make a single attempt
+ * @param operationSignal: AbortSignal of the operation, no more attempts are made once it's aborted
+ */
+const withRetries = (
+  attempt: () => Promise<Response>,
+  method: string,
+  retry: RestLink.RetryOptions | null,
+  operationSignal?: any,
+): Promise<Response> => {
+  if (retry == null || retry.methods.indexOf(method.toUpperCase()) === -1) {
+    return attempt();
+  }
+  const run = (attemptNumber: number): Promise<Response> =>
+    attempt().catch(error => {
+      if (
+        attemptNumber >= retry.max ||
+        error.name === 'AbortError' ||
+        !retry.retryIf(error, attemptNumber)
+      ) {
+        throw error;
+      }
+      const retryAfter = parseRetryAfter(error);
+      const backoff = Math.min(
+        retry.maxDelay,
+        retry.initialDelay * Math.pow(2, attemptNumber - 1),
+      );
+      const delay =
+        retryAfter != null
+          ? Math.min(retry.maxDelay, retryAfter)
+          : retry.jitter ? Math.random() * backoff : backoff;
+      return new Promise<Response>((resolve, reject) => {
+        const abort = () => {
+          clearTimeout(timer);
+          const abortError = new Error('The operation was aborted');
+          abortError.name = 'AbortError';
+          reject(abortError);
+        };
+        const timer = setTimeout(() => {
+          if (operationSignal) {
+            operationSignal.removeEventListener('abort', abort);
+          }
+          resolve(run(attemptNumber + 1));
+        }, delay);
+        if (operationSignal) {
+          if (operationSignal.aborted) {
+            abort();
+          } else {
+            operationSignal.addEventListener('abort', abort);
+          }
+        }
+      });
+    });
+  return run(1);
+};
+
+/**
+ * Makes a request with its own AbortSignal, which is aborted along with the operation's
+ * or when the request times out. Where AbortController isn't supported, timeouts still
+ * reject, but can't cancel the underlying fetch.
+ *
+ * @param makeRequest: Makes the request using the signal it's given
+ * @param operationSignal: AbortSignal of the operation this request belongs to
+ * @param timeout: Milliseconds after which to give up with a @see RestLink.TimeoutError
+ * @param url: URL of the request, for the error message
+ */
+const withAbortAndTimeout = (
+  makeRequest: (signal: any) => Promise<Response>,
+  operationSignal: any,
+  timeout: number | null,
+  url: string,
+): Promise<Response> => {
+  const controller =
+    typeof AbortController !== 'undefined' ? new AbortController() : null;
+  const abort = () => controller && controller.abort();
+  if (operationSignal) {
+    if (operationSignal.aborted) {
+      abort();
+    } else {
+      operationSignal.addEventListener('abort', abort);
+    }
+  }
+  const cleanUp = () =>
+    operationSignal && operationSignal.removeEventListener('abort', abort);
+
+  return new Promise<Response>((resolve, reject) => {
+    const timer =
+      timeout == null
+        ? null
+        : setTimeout(() => {
+            const error = new Error(
+              `Request timed out after ${timeout}ms: ${url}`,
+            ) as RestLink.TimeoutError;
+            error.name = 'TimeoutError';
+            error.timeout = timeout;
+            error.url = url;
+            reject(error);
+            abort();
+          }, timeout);
+
+    makeRequest(controller ? controller.signal : undefined).then(
+      response => {
+        clearTimeout(timer);
+        cleanUp();
+        resolve(response);
+      },
+      error => {
+        clearTimeout(timer);
+        cleanUp();
+        reject(error);
+      },
+    );
+  });
+};
+
+/** A GET request shared by every caller that asked for it while it was in flight */
+interface InFlightRequest {
+  response: Promise<Response>;
+  /** Number of callers whose operation hasn't been aborted */
+  callers: number;
+  abort: () => void;
+}
+
+/**
+ * Identifies a request for deduplication: two requests with the same key get the same response
+ * @param request: The request, with its provided headers but before interceptors ran
+ */
+const dedupeKey = (request: RestLink.RequestParams): string => {
+  const headers: string[] = [];
+  request.headers.forEach((value, name) => headers.push(`${name}: ${value}`));
+  return [
+    request.method,
+    request.url,
+    request.credentials || '',
+    ...headers.sort(),
+  ].join('\n');
+};
+
+/**
+ * Makes a request, or joins the identical one already in flight. Each caller gets its own
+ * clone of the response, and the shared request is only aborted once every caller's operation is.
+ *
+ * @param inFlightRequests: The requests in flight, by @see dedupeKey
+ * @param key: Key of this request
+ * @param operationSignal: AbortSignal of the operation this caller belongs to
+ * @param makeRequest: Makes the request using the signal it's given
+ */
+const dedupeRequest = (
+  inFlightRequests: { [key: string]: InFlightRequest },
+  key: string,
+  operationSignal: any,
+  makeRequest: (signal: any) => Promise<Response>,
+): Promise<Response> => {
+  let inFlight = inFlightRequests[key];
+  if (inFlight == null) {
+    const controller =
+      typeof AbortController !== 'undefined' ? new AbortController() : null;
+    const isInFlight = () => inFlightRequests[key] === inFlight;
+    const forget = () => {
+      if (isInFlight()) {
+        delete inFlightRequests[key];
+      }
+    };
+    inFlight = {
+      response: makeRequest(controller ? controller.signal : undefined),
+      callers: 0,
+      // Once settled, aborting would only cut off the callers still reading the body
+      abort: () => {
+        if (controller && isInFlight()) {
+          // Requests made before the rejection settles mustn't join the aborted one
+          forget();
+          controller.abort();
+        }
+      },
+    };
+    inFlightRequests[key] = inFlight;
+    inFlight.response.then(forget, forget);
+  }
+  const shared = inFlight;
+  shared.callers += 1;
+  const leave = () => {
+    shared.callers -= 1;
+    if (shared.callers === 0) {
+      shared.abort();
+    }
+  };
+  if (operationSignal) {
+    operationSignal.addEventListener('abort', leave);
+  }
+  // Once settled, this caller no longer needs to hear about its operation being aborted
+  const cleanUp = () =>
+    operationSignal && operationSignal.removeEventListener('abort', leave);
+  return shared.response.then(
+    res => {
+      cleanUp();
+      // Synthetic responses from interceptors may not be clonable
+      return typeof res.clone === 'function' ? res.clone() : res;
+    },
+    error => {
+      cleanUp();
+      throw error;
+    },
+  );
+};
+
+/** A batched request waiting for the rest of this tick's keys */
+interface PendingBatch {
+  keys: any[];
+  result: Promise<any>;
+}
+
+/**
+ * Adds a key to the batch of the same request, which is loaded at the end of this tick
+ * @param batches: The batches still collecting keys, by request
+ * @param batchKey: Identifies the batched request
+ * @param key: Key of the parent that wants a result out of this batch
+ * @param load: Loads the data of every collected key
+ * @returns The data of the whole batch, @see splitBatchResult
+ */
+const loadBatched = (
+  batches: { [batchKey: string]: PendingBatch },
+  batchKey: string,
+  key: any,
+  load: (keys: any[]) => Promise<any>,
+): Promise<any> => {
+  let batch = batches[batchKey];
+  if (batch == null) {
+    const keys = [];
+    batch = {
+      keys,
+      result: new Promise(resolve => setTimeout(resolve, 0)).then(() => {
+        delete batches[batchKey];
+        return load(keys);
+      }),
+    };
+    batches[batchKey] = batch;
+  }
+  if (batch.keys.indexOf(key) === -1) {
+    batch.keys.push(key);
+  }
+  return batch.result;
+};
+
+/**
+ * Picks the result of one parent out of a batched response
+ * @param data: The (transformed) response of the whole batch
+ * @param key: Key of the parent
+ * @param batch: Options of the batch
+ */
+const splitBatchResult = (
+  data: any,
+  key: any,
+  batch: RestLink.BatchOptions,
+): any => {
+  if (batch.split) {
+    return batch.split(data, key);
+  }
+  if (Array.isArray(data)) {
+    const matchBy = batch.matchBy || batch.key;
+    const matches = data.filter(
+      item => item != null && String(item[matchBy]) === String(key),
+    );
+    if (batch.many) {
+      return matches;
+    }
+    return matches.length > 0 ? matches[0] : null;
+  }
+  const value = data == null ? undefined : data[key];
+  if (value === undefined) {
+    return batch.many ? [] : null;
+  }
+  return value;
+};
+
+const isClientError = (error: any): error is RestLink.ServerError =>
+  error != null && error.statusCode >= 400 && error.statusCode < 500;
+
+/**
+ * Describes an error as an entry of a GraphQL result's `errors`,
+ * with the details of @see RestLink.ServerError as its extensions
+ * @param error: The error a @rest field failed with
+ * @param path: Path to the GraphQL field that failed
+ */
+const toGraphQLError = (error: any, path: (string | number)[]): any => {
+  if (error.statusCode == null) {
+    return { message: error.message, path };
+  }
+  const serverError: RestLink.ServerError = error;
+  return {
+    message: serverError.message,
+    path: serverError.path || path,
+    extensions: {
+      statusCode: serverError.statusCode,
+      url: serverError.url,
+      method: serverError.method,
+      endpoint: serverError.endpoint,
+      body: serverError.parsedBody,
+    },
+  };
+};
+
+/**
+ * Remembers the GraphQL path of every object (and array entry) in a field's result,
+ * so fields nested inside it can work out their own path
+ */
+const trackFieldPaths = <T>(
+  fieldPaths: WeakMap<object, (string | number)[]>,
+  value: T,
+  path: (string | number)[],
+): T => {
+  if (Array.isArray(value)) {
+    value.forEach((entry, index) =>
+      trackFieldPaths(fieldPaths, entry, [...path, index]),
+    );
+  } else if (value != null && typeof value === 'object') {
+    fieldPaths.set(value as any, path);
+  }
+  return value;
+};
+
+/**
+ * Reads a response body as the given responseType, or by its Content-Type if there is none:
+ * JSON ones are parsed, any other (e.g. `text/*` or XML) is read as text
+ */
+const parseResponseBody = (
+  res: Response,
+  responseType?: RestLink.ResponseType,
+): Promise<any> => {
+  switch (responseType) {
+    case 'json':
+      return res.json();
+    case 'text':
+      return res.text();
+    case 'blob':
+      return res.blob();
+    case 'arrayBuffer':
+      return res.arrayBuffer();
+  }
+  if (res.status === 204) {
+    return Promise.resolve(null);
+  }
+  const contentType = ((res.headers && res.headers.get('Content-Type')) || '')
+    .split(';')[0]
+    .trim()
+    .toLowerCase();
+  const isJson =
+    contentType === '' ||
+    contentType === 'application/json' ||
+    /\+json$/.test(contentType);
+  return res.text().then(text => {
+    if (text.length === 0) {
+      return null;
+    }
+    return isJson ? JSON.parse(text) : text;
+  });
+};
+
+/** JSON objects & arrays, as opposed to scalars, strings & binary bodies (Blob, ArrayBuffer) */
+const isObjectOrArray = (value: any): boolean =>
+  Array.isArray(value) ||
+  Object.prototype.toString.call(value) === '[object Object]';
+
+const isResponse = (value: any): value is Response =>
+  value != null &&
+  typeof value.status === 'number' &&
+  typeof value.text === 'function';
+
+/** How many responses the in-memory HTTP cache keeps, the least recently used ones go first */
+const MEMORY_HTTP_CACHE_SIZE = 100;
+
+const createMemoryHttpCache = (): RestLink.HttpCacheStorage => {
+  // Maps iterate in insertion order, so the first key is the least recently used
+  const entries = new Map<string, RestLink.HttpCacheEntry>();
+  return {
+    get: key => {
+      const entry = entries.get(key);
+      if (entry !== undefined) {
+        entries.delete(key);
+        entries.set(key, entry);
+      }
+      return entry;
+    },
+    set: (key, entry) => {
+      entries.delete(key);
+      entries.set(key, entry);
+      if (entries.size > MEMORY_HTTP_CACHE_SIZE) {
+        entries.delete(entries.keys().next().value);
+      }
+    },
+  };
+};
+
+const createWebStorageHttpCache = (
+  storage: Storage,
+  prefix: string = 'apollo-link-rest:',
+): RestLink.HttpCacheStorage => ({
+  get: key => {
+    const item = storage.getItem(prefix + key);
+    return item == null ? null : JSON.parse(item);
+  },
+  set: (key, entry) => {
+    try {
+      storage.setItem(prefix + key, JSON.stringify(entry));
+    } catch (error) {
+      // The storage is full (or disabled), the response just isn't cached
+    }
+  },
+});
+
+const resolveHttpCache = (
+  httpCache: RestLink.Options['httpCache'],
+): RestLink.HttpCacheStorage | null => {
+  if (httpCache === true || httpCache === 'memory') {
+    return createMemoryHttpCache();
+  }
+  if (httpCache === 'localStorage') {
+    return createWebStorageHttpCache(localStorage);
+  }
+  if (httpCache === 'sessionStorage') {
+    return createWebStorageHttpCache(sessionStorage);
+  }
+  return httpCache || null;
+};
+
+/**
+ * Parses a Cache-Control header into its directives, e.g. `{ 'max-age': '60', 'no-cache': true }`
+ */
+const parseCacheControl = (
+  header: string | null,
+): { [directive: string]: string | true } =>
+  (header || '').split(',').reduce((directives, part) => {
+    const [name, value] = part.split('=');
+    if (name.trim().length > 0) {
+      directives[name.trim().toLowerCase()] =
+        value == null ? true : value.trim().replace(/^"|"$/g, '');
+    }
+    return directives;
+  }, {});
+
+/**
+ * Describes a response for the HTTP cache, or returns null when it can't be reused
+ * @param response: Status & headers of the response (the stored ones, updated by a 304's)
+ * @param body: The body of the response, as text
+ * @param requestHeaders: Headers of the request, to remember the ones the response `Vary`s on
+ */
+const toHttpCacheEntry = (
+  response: { status: number; statusText: string; headers: Headers },
+  body: string,
+  requestHeaders: Headers,
+): RestLink.HttpCacheEntry | null => {
+  const { headers } = response;
+  const cacheControl = parseCacheControl(headers.get('Cache-Control'));
+  const varyNames = (headers.get('Vary') || '')
+    .split(',')
+    .map(name => name.trim().toLowerCase())
+    .filter(name => name.length > 0);
+  if (cacheControl['no-store'] || varyNames.indexOf('*') !== -1) {
+    return null;
+  }
+  const maxAge = cacheControl['no-cache']
+    ? 0
+    : parseInt(cacheControl['max-age'] as string, 10) || 0;
+  const canRevalidate = headers.has('ETag') || headers.has('Last-Modified');
+  if (maxAge === 0 && !canRevalidate) {
+    return null;
+  }
+
+  const storedHeaders: { [name: string]: string } = {};
+  headers.forEach((value, name) => {
+    storedHeaders[name] = value;
+  });
+  return {
+    status: response.status,
+    statusText: response.statusText,
+    headers: storedHeaders,
+    body,
+    date: Date.now(),
+    maxAge,
+    vary: varyNames.reduce((vary, name) => {
+      vary[name] = requestHeaders.get(name);
+      return vary;
+    }, {}),
+  };
+};
+
+/**
+ * Calls a method of the HTTP cache's storage, ignoring its errors as the Web Storage one does:
+ * a storage that fails just means responses aren't reused.
+ */
+const callHttpCacheStorage = <T>(
+  call: () => T | Promise<T>,
+): Promise<T | null> =>
+  new Promise<T>(resolve => resolve(call())).catch(() => null);
+
+const responseFromHttpCacheEntry = (entry: RestLink.HttpCacheEntry) =>
+  new Response(entry.body, {
+    status: entry.status,
+    statusText: entry.statusText,
+    headers: entry.headers,
+  });
+
+/**
+ * Wraps fetch with an HTTP cache for GET requests: fresh responses are served from the storage,
+ * stale ones are revalidated & a `304 Not Modified` is answered with the stored response.
+ * @param doFetch: The fetch to wrap
+ * @param storage: Where responses are stored, by URL
+ */
+const withHttpCache = (
+  doFetch: RestLink.CustomFetch,
+  storage: RestLink.HttpCacheStorage,
+): RestLink.CustomFetch => (url, init) => {
+  const requestHeaders = normalizeHeaders(init.headers as any);
+  const requestCacheControl = parseCacheControl(
+    requestHeaders.get('Cache-Control'),
+  );
+  const method = (init.method || 'GET').toUpperCase();
+  if (method !== 'GET' || requestCacheControl['no-store']) {
+    return doFetch(url, init);
+  }
+  const key = String(url);
+
+  return callHttpCacheStorage(() => storage.get(key)).then(stored => {
+    const entry =
+      stored != null &&
+      Object.keys(stored.vary).every(
+        name => requestHeaders.get(name) === stored.vary[name],
+      )
+        ? stored
+        : null;
+    const isFresh =
+      entry != null &&
+      !requestCacheControl['no-cache'] &&
+      Date.now() < entry.date + entry.maxAge * 1000;
+    if (isFresh) {
+      return responseFromHttpCacheEntry(entry);
+    }
+
+    let conditionalInit = init;
+    if (entry != null) {
+      const conditionalHeaders = concatHeadersMergePolicy(requestHeaders);
+      const etag = conditionalHeaders.has('If-None-Match')
+        ? null
+        : entry.headers['etag'];
+      const lastModified = conditionalHeaders.has('If-Modified-Since')
+        ? null
+        : entry.headers['last-modified'];
+      if (etag) {
+        conditionalHeaders.set('If-None-Match', etag);
+      }
+      if (lastModified) {
+        conditionalHeaders.set('If-Modified-Since', lastModified);
+      }
+      conditionalInit = { ...init, headers: conditionalHeaders };
+    }
+
+    return doFetch(url, conditionalInit).then(response => {
+      if (entry != null && response.status === 304) {
+        // Not Modified: the stored body is still good, for as long as the new headers say
+        const headers = new Headers(entry.headers);
+        response.headers.forEach((value, name) => headers.set(name, value));
+        const revalidated = toHttpCacheEntry(
+          { status: entry.status, statusText: entry.statusText, headers },
+          entry.body,
+          requestHeaders,
+        );
+        if (revalidated == null) {
+          return responseFromHttpCacheEntry(entry);
+        }
+        return callHttpCacheStorage(() =>
+          storage.set(key, revalidated),
+        ).then(() => responseFromHttpCacheEntry(revalidated));
+      }
+      if (response.status !== 200) {
+        return response;
+      }
+      return response
+        .clone()
+        .text()
+        .then(body => {
+          const fetched = toHttpCacheEntry(response, body, requestHeaders);
+          return fetched == null
+            ? undefined
+            : callHttpCacheStorage(() => storage.set(key, fetched));
+        })
+        .then(() => response);
+    });
+  });
+};
+
+/**
+ * Parses a Link header into its URLs by rel, e.g. `<https://api/posts?page=2>; rel="next"`
+ */
+const parseLinkHeader = (header: string | null): { [rel: string]: string } =>
+  (header || '').split(/,\s*(?=<)/).reduce((links, part) => {
+    const link = /^\s*<([^>]*)>(.*)$/.exec(part);
+    const rel = link && /;\s*rel="?([^";]+)"?/i.exec(link[2]);
+    if (rel) {
+      rel[1]
+        .trim()
+        .split(/\s+/)
+        .forEach(name => {
+          links[name.toLowerCase()] = link[1];
+        });
+    }
+    return links;
+  }, {});
+
+const createResponseMeta = (response: Response): RestLink.ResponseMeta => {
+  const headers: { [name: string]: string } = {};
+  response.headers.forEach((value, name) => {
+    headers[name.toLowerCase()] = value;
+  });
+  const totalCount = parseInt(response.headers.get('X-Total-Count'), 10);
+  return {
+    status: response.status,
+    statusText: response.statusText,
+    url: response.url,
+    headers,
+    links: parseLinkHeader(response.headers.get('Link')),
+    totalCount: isNaN(totalCount) ? null : totalCount,
+  };
+};
+
+/** Removes the `.` & `..` segments of a path, e.g. `/v1/../posts` becomes `/posts` */
+const removeDotSegments = (path: string): string => {
+  const segments = path.split('/');
+  const output: string[] = [];
+  segments.forEach(segment => {
+    if (segment === '..') {
+      // Never above the root
+      if (output.length > 1) {
+        output.pop();
+      }
+    } else if (segment !== '.') {
+      output.push(segment);
+    }
+  });
+  const last = segments[segments.length - 1];
+  if (last === '.' || last === '..') {
+    output.push('');
+  }
+  return output.join('/');
+};
+
+/** Splits a URL into its scheme & authority, its path & its query, e.g. `https://api`, `/v1`, `?page=2` */
+const urlPattern = /^((?:[a-z][a-z\d+.-]*:)?\/\/[^/?#]*)?([^?#]*)(\?[^#]*)?/i;
+
+/**
+ * Resolves a (maybe relative) URL reference against the URL it was found at, as in RFC 3986
+ * @param reference: The URL to resolve, e.g. of a Link header
+ * @param base: URL of the response, itself maybe relative to the page's origin
+ */
+const resolveUrl = (reference: string, base: string): string => {
+  if (!base || /^[a-z][a-z\d+.-]*:/i.test(reference)) {
+    return reference;
+  }
+  const [, origin = '', path, query = ''] = urlPattern.exec(base);
+  if (reference.slice(0, 2) === '//') {
+    return `${origin.slice(0, origin.indexOf('//'))}${reference}`;
+  }
+  if (reference.charAt(0) === '#') {
+    return `${origin}${path}${query}${reference}`;
+  }
+  if (reference.charAt(0) === '?') {
+    return `${origin}${path}${reference}`;
+  }
+  const [, referencePath, rest] = /^([^?#]*)(.*)$/.exec(reference);
+  const directory =
+    origin && !path ? '/' : path.slice(0, path.lastIndexOf('/') + 1);
+  return `${origin}${removeDotSegments(
+    referencePath.charAt(0) === '/' ? referencePath : directory + referencePath,
+  )}${rest}`;
+};
+
+/** A response with its parsed (& transformed) body */
+interface ParsedResponse {
+  data: any;
+  response: Response;
+}
+
+/**
+ * Follows the `next` links of paginated responses, concatenating their items
+ * @param page: The pages loaded so far, with the response of the last one
+ * @param url: URL of the last page, relative links are resolved against its response's URL or this
+ * @param loadPage: Loads the page at a URL
+ * @param limit: How many items to load at most
+ * @returns The items of every page, with the response of the last one
+ */
+const followNextLinks = (
+  page: ParsedResponse,
+  url: string,
+  loadPage: (url: string) => Promise<ParsedResponse>,
+  limit: number,
+): Promise<ParsedResponse> => {
+  const items = page.data;
+  const link = parseLinkHeader(page.response.headers.get('Link')).next;
+  const next = link == null ? null : resolveUrl(link, page.response.url || url);
+  if (!Array.isArray(items) || items.length >= limit || next == null) {
+    return Promise.resolve({
+      ...page,
+      data: Array.isArray(items) ? items.slice(0, limit) : items,
+    });
+  }
+  return loadPage(next).then(nextPage => {
+    if (!Array.isArray(nextPage.data) || nextPage.data.length === 0) {
+      return { data: items, response: nextPage.response };
+    }
+    return followNextLinks(
+      { data: items.concat(nextPage.data), response: nextPage.response },
+      next,
+      loadPage,
+      limit,
+    );
+  });
+};
+
 /**
- * Helper that makes sure our headers are of the right type to pass to Fetch
+ * Sends a request through the request interceptors, fetch & the response interceptors.
+ * A request interceptor that returns a Response skips the remaining interceptors & fetch.
  */
-export const normalizeHeaders = (
-  headers: RestLink.InitializationHeaders,
-): Headers => {
-  // Make sure that our headers object is of the right type
-  if (headers instanceof Headers) {
-    return headers;
-  } else {
-    return new Headers(headers);
-  }
+const fetchWithInterceptors = (
+  doFetch: RestLink.CustomFetch,
+  request: RestLink.RequestParams,
+  directiveOptions: RestLink.DirectiveOptions,
+  requestInterceptors: RestLink.RequestInterceptor[],
+  responseInterceptors: RestLink.ResponseInterceptor[],
+): Promise<Response> => {
+  let finalRequest = request;
+  return requestInterceptors
+    .reduce(
+      (previous: Promise<RestLink.RequestParams | Response>, interceptor) =>
+        previous.then(
+          current =>
+            isResponse(current)
+              ? current
+              : interceptor(current, directiveOptions),
+        ),
+      Promise.resolve(request),
+    )
+    .then(current => {
+      if (isResponse(current)) {
+        return current;
+      }
+      finalRequest = current;
+      const { url, ...init } = current;
+      return doFetch(url, init);
+    })
+    .then(response =>
+      responseInterceptors.reduce(
+        (previous: Promise<Response>, interceptor) =>
+          previous.then(current =>
+            interceptor(current, finalRequest, directiveOptions),
+          ),
+        Promise.resolve(response),
+      ),
+    );
 };
 
 /**
- * Returns a new Headers Group that contains all the headers.
- * - If there are duplicates, they will be in the returned header set multiple times!
+ * Builds a parser for the text/event-stream format, it can be handed chunks of
+ * arbitrary size and calls onData once per complete event that carried `data:`
+ * @param onData: Receives the (multi-line joined) data of each event
  */
-export const concatHeadersMergePolicy: RestLink.HeadersMergePolicy = (
-  ...headerGroups: Headers[]
-): Headers => {
-  return headerGroups.reduce((accumulator, current) => {
-    if (!current) {
-      return accumulator;
-    }
-    if (!current.forEach) {
-      current = normalizeHeaders(current);
+const createEventStreamParser = (
+  onData: (data: string) => void,
+): ((chunk: string) => void) => {
+  let buffer = '';
+  return (chunk: string) => {
+    buffer += chunk.replace(/\r\n?/g, '\n');
+    let boundary = buffer.indexOf('\n\n');
+    while (boundary !== -1) {
+      const block = buffer.slice(0, boundary);
+      buffer = buffer.slice(boundary + 2);
+      const dataLines = block
+        .split('\n')
+        .filter(line => line.indexOf('data:') === 0)
+        .map(line => line.slice('data:'.length).replace(/^ /, ''));
+      if (dataLines.length > 0) {
+        onData(dataLines.join('\n'));
+      }
+      boundary = buffer.indexOf('\n\n');
     }
-    current.forEach((value, key) => {
-      accumulator.append(key, value);
-    });
-
-    return accumulator;
-  }, new Headers());
+  };
 };
 
 /**
- * This merge policy deletes any matching headers from the link's default headers.
- * - Pass headersToOverride array & a headers arg to context and this policy will automatically be selected.
+ * Opens a Server-Sent-Events stream & hands each event's JSON payload (with the stream's
+ * Response) to onEvent
+ *
+ * If the fetch implementation doesn't expose a streaming body, the whole body is
+ * read as text once it's complete, which is what most mocks & polyfills support.
+ *
+ * @returns a function that closes the stream
  */
-export const overrideHeadersMergePolicyHelper = (
-  linkHeaders: Headers,
-  headersToOverride: string[],
-  requestHeaders: Headers | null,
-): Headers => {
-  const result = new Headers();
-  linkHeaders.forEach((value, key) => {
-    if (headersToOverride.indexOf(key) !== -1) {
-      return;
+const openEventStream = (
+  doRequest: () => Promise<Response>,
+  onEvent: (payload: any, response: Response) => void,
+  onError: (error: Error) => void,
+  onComplete: () => void,
+): (() => void) => {
+  let closed = false;
+  let reader = null;
+  let response: Response = null;
+  const parse = createEventStreamParser(data => {
+    if (!closed) {
+      onEvent(JSON.parse(data), response);
     }
-    result.append(key, value);
   });
-  return concatHeadersMergePolicy(result, requestHeaders || new Headers());
-};
-const makeOverrideHeadersMergePolicy = (
-  headersToOverride: string[],
-): RestLink.HeadersMergePolicy => {
-  return (linkHeaders, requestHeaders) => {
-    return overrideHeadersMergePolicyHelper(
-      linkHeaders,
-      headersToOverride,
-      requestHeaders,
-    );
-  };
-};
 
-export const validateRequestMethodForOperationType = (
-  method: string,
-  operationType: OperationTypeNode,
-): void => {
-  switch (operationType) {
-    case 'query':
-      if (method.toUpperCase() !== 'GET') {
-        throw new Error(
-          `A "query" operation can only support "GET" requests but got "${method}".`,
-        );
-      }
-      return;
-    case 'mutation':
-      if (
-        ['POST', 'PUT', 'PATCH', 'DELETE'].indexOf(method.toUpperCase()) !== -1
-      ) {
-        return;
+  doRequest()
+    .then(res => {
+      response = res;
+      const body: any = res.body;
+      if (body == null || typeof body.getReader !== 'function') {
+        return res.text().then(text => parse(`${text}\n\n`));
       }
-      throw new Error('"mutation" operations do not support that HTTP-verb');
-    case 'subscription':
-      throw new Error('A "subscription" operation is not supported yet.');
-    default:
-      const _exhaustiveCheck: never = operationType;
-      return _exhaustiveCheck;
-  }
+      reader = body.getReader();
+      const decoder = new TextDecoder();
+      const pump = (): Promise<void> =>
+        reader.read().then(({ done, value }) => {
+          if (done || closed) {
+            return;
+          }
+          parse(decoder.decode(value, { stream: true }));
+          return pump();
+        });
+      return pump();
+    })
+    .then(
+      () => {
+        if (!closed) {
+          onComplete();
+        }
+      },
+      error => {
+        if (!closed && error.name !== 'AbortError') {
+          onError(error);
+        }
+      },
+    );
+
+  return () => {
+    closed = true;
+    if (reader) {
+      reader.cancel();
+    }
+  };
 };
 
 /**
- * Utility to build & throw a JS Error from a "failed" REST-response
- * @param response: HTTP Response object for this request
- * @param result: Promise that will render the body of the response
- * @param message: Human-facing error message
+ * Polls an endpoint, handing each parsed response (& the Response) to onEvent.
+ * The next request is only scheduled once the previous one has completed.
+ *
+ * @returns a function that stops polling
  */
-const rethrowServerSideError = (
-  response: Response,
-  result: Promise<string>,
-  message: string,
-) => {
-  const error = new Error(message) as RestLink.ServerError;
-
-  error.response = response;
-  error.statusCode = response.status;
-  error.result = result;
+const openPollingStream = (
+  doRequest: () => Promise<Response>,
+  pollInterval: number,
+  responseType: RestLink.ResponseType | undefined,
+  onEvent: (payload: any, response: Response) => void,
+  onError: (error: Error) => void,
+): (() => void) => {
+  let closed = false;
+  let timer = null;
+
+  const poll = () => {
+    doRequest()
+      .then(res =>
+        parseResponseBody(res, responseType).then(payload => ({
+          payload,
+          res,
+        })),
+      )
+      .then(
+        ({ payload, res }) => {
+          if (!closed) {
+            onEvent(payload, res);
+            timer = setTimeout(poll, pollInterval);
+          }
+        },
+        error => {
+          if (!closed && error.name !== 'AbortError') {
+            onError(error);
+          }
+        },
+      );
+  };
+  poll();
 
-  throw error;
+  return () => {
+    closed = true;
+    clearTimeout(timer);
+  };
 };
 
+/** A stream a root @rest field of a subscription wants opened */
+interface EventStreamRequest {
+  resultKey: string;
+  endpoint: string;
+  request: RestLink.RequestParams;
+  directiveOptions: RestLink.DirectiveOptions;
+  /** Set when the field should be polled rather than streamed */
+  pollInterval?: number;
+  /** Merges the link's provided headers into the request's, for every (re)connection */
+  withProvidedHeaders: (requestHeaders: Headers) => Promise<Headers>;
+}
+
 /** Apollo-Link getContext, provided from the user & mutated by upstream links */
 interface LinkChainContext {
   /** Credentials Policy for Fetch */
@@ -567,6 +2864,9 @@ interface LinkChainContext {
 
   /** List of headers to override, passing this will swap headersMergePolicy if necessary */
   headersToOverride?: string[] | null;
+
+  /** Error Policy for this operation, overrides RestLink.errorPolicy */
+  errorPolicy?: RestLink.ErrorPolicy | null;
 }
 
 /** Context passed via graphql() to our resolver */
@@ -574,20 +2874,77 @@ interface RequestContext {
   /** Headers the user wants to set on this request. See also headersMergePolicy */
   headers: Headers;
 
+  /** The user's merge policy, if any, also used to merge headers of @rest directives */
+  headersMergePolicy?: RestLink.HeadersMergePolicy | null;
+
+  /**
+   * Merges the headers of the link's @see RestLink.HeadersProvider with the ones of a request,
+   * leaving out the provided headers it overrides. Null when the link's headers are static
+   */
+  provideHeaders?:
+    | ((
+        requestHeaders: Headers,
+        overriddenHeaders: string[],
+      ) => Promise<Headers>)
+    | null;
+
+  /** Variables of this operation, for interpolating headers of @rest directives & @type(name:) */
+  variables: Record<string, any>;
+
   /** Credentials Policy for Fetch */
   credentials?: RequestCredentials | null;
 
   /** Exported variables fulfilled in this request, using @export(as:) */
   exportVariables: { [key: string]: any };
 
+  /** GraphQL paths of the objects resolved in this request, @see trackFieldPaths */
+  fieldPaths: WeakMap<object, (string | number)[]>;
+
+  /** GraphQL errors collected in this request, reported alongside the data */
+  errors: any[];
+
+  /** Problems of the responses in strict `warn` mode, reported in the result's extensions */
+  warnings: RestLink.ValidationProblem[];
+
   endpoints: RestLink.Endpoints;
   customFetch: RestLink.CustomFetch;
+  requestInterceptors: RestLink.RequestInterceptor[];
+  responseInterceptors: RestLink.ResponseInterceptor[];
+  responseTransformer: RestLink.ResponseTransformer;
+  bodySerializer: RestLink.Serializer | string;
+  bodySerializers: RestLink.Serializers;
+  clientErrorsAsGraphQLErrors: boolean;
+  errorPolicy: RestLink.ErrorPolicy;
+  retry: RestLink.RetryOptions | boolean;
+  timeout: number;
+  strict: RestLink.ValidationMode;
+  httpCache: RestLink.HttpCacheStorage;
+  refreshToken: () => Promise<any>;
+  allowedMethods: RestLink.AllowedMethods;
   operationType: OperationTypeNode;
   fieldNameNormalizer: RestLink.FieldNameNormalizer;
   fieldNameDenormalizer: RestLink.FieldNameNormalizer;
   mainDefinition: OperationDefinitionNode | FragmentDefinitionNode;
   fragmentDefinitions: FragmentDefinitionNode[];
   typePatcher: RestLink.FunctionalTypePatcher;
+  /** Field types of the link's schema, if any */
+  schemaTypes: SchemaTypeMap | null;
+  scalars: RestLink.Scalars;
+
+  /** AbortSignal of this operation, aborted when it's unsubscribed from */
+  signal?: any;
+
+  /** Batched requests of this operation still collecting keys, @see loadBatched */
+  batches: { [batchKey: string]: PendingBatch };
+
+  /** GET requests in flight across all operations of this link, @see dedupeRequest */
+  inFlightRequests: { [key: string]: InFlightRequest };
+
+  /** Subscriptions only: collects the event streams requested by root @rest fields */
+  onEventStream?: (stream: EventStreamRequest) => void;
+
+  /** Subscriptions only: the event payload(s) being resolved in this pass, by resultKey */
+  eventPayloads?: { [resultKey: string]: ParsedResponse };
 }
 
 const resolver: Resolver = async (
@@ -597,24 +2954,45 @@ const resolver: Resolver = async (
   context: RequestContext,
   info: ExecInfo,
 ) => {
-  const { directives, isLeaf, resultKey } = info;
-  const { exportVariables } = context;
+  const { directives, resultKey } = info;
+  const { exportVariables, fieldPaths } = context;
+  const fieldPath = [...((root && fieldPaths.get(root)) || []), resultKey];
 
   const currentNode = (root || {})[resultKey];
   if (root && directives && directives.export) {
     exportVariables[directives.export.as] = currentNode;
   }
   const isNotARestCall = !directives || !directives.rest;
-  if (isLeaf || isNotARestCall) {
-    return currentNode;
+  // Leaf fields can be @rest calls too, e.g. for text/plain responses
+  if (isNotARestCall) {
+    return trackFieldPaths(fieldPaths, currentNode, fieldPath);
   }
   const {
     credentials,
     endpoints,
     headers,
+    headersMergePolicy,
+    provideHeaders,
+    variables,
     customFetch,
+    requestInterceptors,
+    responseInterceptors,
+    responseTransformer: linkLevelResponseTransformer,
+    bodySerializer: linkLevelBodySerializer,
+    bodySerializers,
+    clientErrorsAsGraphQLErrors,
+    errorPolicy,
+    retry: linkLevelRetry,
+    timeout: linkLevelTimeout,
+    strict: linkLevelStrict,
+    httpCache,
+    refreshToken,
+    allowedMethods,
+    inFlightRequests,
     operationType,
     typePatcher,
+    schemaTypes,
+    scalars,
     mainDefinition,
     fragmentDefinitions,
     fieldNameNormalizer,
@@ -629,6 +3007,7 @@ const resolver: Resolver = async (
     pathBuilder,
   } = directives.rest as RestLink.DirectiveOptions;
   const uri = getURIFromEndpoints(endpoints, endpoint);
+  const endpointKey = endpoint || DEFAULT_ENDPOINT_KEY;
   try {
     const argsWithExport = { ...args, ...exportVariables };
 
@@ -645,20 +3024,9 @@ const resolver: Resolver = async (
       );
     }
     if (!pathBuilder) {
-      pathBuilder = (args: object): string => {
-        const pathWithParams = Object.keys(args).reduce(
-          (acc, e) => replaceParam(acc, e, args[e]),
-          path,
-        );
-        if (pathWithParams.includes(':')) {
-          throw new Error(
-            'Missing params to run query, specify it in the query params or use an export directive',
-          );
-        }
-        return pathWithParams;
-      };
+      pathBuilder = (args: object): string => interpolatePath(path, args);
     }
-    const pathWithParams = pathBuilder(argsWithExport);
+    let pathWithParams = pathBuilder(argsWithExport);
 
     let {
       method,
@@ -666,16 +3034,47 @@ const resolver: Resolver = async (
       bodyBuilder,
       bodyKey,
       fieldNameDenormalizer: perRequestNameDenormalizer,
+      queryParams,
+      queryParamsArrayFormat,
+      responseTransformer: perRequestResponseTransformer,
+      responseType,
+      bodySerializer: perRequestBodySerializer,
+      retry: perRequestRetry,
+      timeout: perRequestTimeout,
+      strict: perRequestStrict,
+      dedupe,
+      batch,
+      responseMeta,
+      autoPaginate,
+      responseMetaKey,
+      headers: perRequestHeaders,
+      typeMap,
+      discriminator,
+      types,
     } = directives.rest as RestLink.DirectiveOptions;
     if (!method) {
       method = 'GET';
     }
 
+    const nameDenormalizer =
+      perRequestNameDenormalizer ||
+      linkLevelNameDenormalizer ||
+      noOpNameNormalizer;
+    const queryString = buildQueryString(
+      queryParams,
+      queryParamsArrayFormat,
+      nameDenormalizer,
+    );
+    pathWithParams = appendQueryString(pathWithParams, queryString);
+
+    validateRequestMethodForOperationType(
+      method,
+      operationType || 'query',
+      allowedMethods,
+    );
+
     let body = null;
-    if (
-      -1 === ['GET', 'DELETE'].indexOf(method) &&
-      operationType === 'mutation'
-    ) {
+    if (-1 === METHODS_WITHOUT_BODY.indexOf(method)) {
       // Prepare our body!
       if (!bodyBuilder) {
         // By convention GraphQL recommends mutations having a single argument named "input"
@@ -693,54 +3092,392 @@ const resolver: Resolver = async (
         };
       }
       body = convertObjectKeys(
-        bodyBuilder(argsWithExport),
+        typeMap == null
+          ? bodyBuilder(argsWithExport)
+          : serializeScalars(bodyBuilder(argsWithExport), typeMap, scalars),
         perRequestNameDenormalizer ||
           linkLevelNameDenormalizer ||
           noOpNameNormalizer,
       );
     }
 
-    validateRequestMethodForOperationType(method, operationType || 'query');
-    return await (customFetch || fetch)(`${uri}${pathWithParams}`, {
-      credentials,
+    const insertNulls = (result: any, possibleTypes?: string[]) =>
+      findRestDirectivesThenInsertNullsForOmittedFields(
+        resultKey,
+        result,
+        mainDefinition,
+        fragmentMap,
+        mainDefinition.selectionSet,
+        possibleTypes,
+      );
+    // Discriminated objects are patched as their own type, the `type` is their fallback
+    const rootTypePatcher: RestLink.FunctionalTypePatcher =
+      discriminator == null
+        ? typePatcher
+        : (data, outerType) =>
+            typePatcher(data, data.__typename || outerType, typePatcher);
+    const discriminate = (result: any) =>
+      discriminator == null
+        ? []
+        : discriminateTypeNames(result, discriminator, types);
+    const restSelectionSet = findRestSelectionSet(
+      resultKey,
+      fragmentMap,
+      mainDefinition.selectionSet,
+    );
+    const strict =
+      perRequestStrict != null ? perRequestStrict : linkLevelStrict;
+    const validate = (
+      result: any,
+      selectionSet: SelectionSetNode,
+      path: (string | number)[],
+      possibleTypes: string[],
+    ) => {
+      if (!strict || selectionSet == null) {
+        return;
+      }
+      const problems = validateAgainstSelectionSet(
+        result,
+        fragmentMap,
+        selectionSet,
+        type,
+        path,
+        typeMap || {},
+        variables,
+        possibleTypes,
+      );
+      if (problems.length === 0) {
+        return;
+      }
+      if (strict === 'warn') {
+        context.warnings.push(...problems);
+        return;
+      }
+      const error = new Error(
+        `The response doesn't match the query: ${problems
+          .map(problem => problem.message)
+          .join(', ')}`,
+      ) as RestLink.ValidationError;
+      error.name = 'ValidationError';
+      error.problems = problems;
+      throw error;
+    };
+    // Only the response body is validated, not the metadata selected next to it
+    const bodySelections = (restSelectionSet
+      ? restSelectionSet.selections
+      : []
+    ).filter(
+      selection =>
+        !isField(selection) || selection.name.value !== responseMetaKey,
+    );
+    const dataField = bodySelections.find(
+      selection => isField(selection) && selection.name.value === 'data',
+    ) as FieldNode;
+    const bodySelectionSet: SelectionSetNode = responseMeta
+      ? dataField && dataField.selectionSet
+      : restSelectionSet && { ...restSelectionSet, selections: bodySelections };
+    const addNestedTypes = (result: any) =>
+      addNestedTypeNames(
+        result,
+        fragmentMap,
+        restSelectionSet,
+        typeMap || {},
+        variables,
+        typePatcher,
+        scalars,
+      );
+    const addTypeNames = (result: any) => {
+      const typed = addTypeNameToResult(result, type, rootTypePatcher);
+      addNestedTypes(typed);
+      return typed;
+    };
+    const addScalars = <T>(result: T): T => {
+      parseScalars(
+        result,
+        fragmentMap,
+        restSelectionSet,
+        typeMap || {},
+        variables,
+        scalars,
+        schemaTypes,
+      );
+      return result;
+    };
+    const normalizeResult = (result: any) => {
+      if (!isObjectOrArray(result)) {
+        // Nothing to normalize or patch in null, strings & binary bodies
+        return result;
+      }
+      const normalized =
+        fieldNameNormalizer == null
+          ? result
+          : convertObjectKeys(result, fieldNameNormalizer);
+      const possibleTypes = discriminate(normalized);
+      validate(normalized, bodySelectionSet, fieldPath, possibleTypes);
+      return trackFieldPaths(
+        fieldPaths,
+        addScalars(addTypeNames(insertNulls(normalized, possibleTypes))),
+        fieldPath,
+      );
+    };
+    const normalizeResponse = ({ data, response }: ParsedResponse) => {
+      if (!responseMeta) {
+        const isObjectResult = isObjectOrArray(data) && !Array.isArray(data);
+        if (responseMetaKey == null || (data != null && !isObjectResult)) {
+          return normalizeResult(data);
+        }
+        // Added once normalized, so neither the key nor the headers get renamed
+        const result = normalizeResult(data == null ? {} : data);
+        result[responseMetaKey] = {
+          __typename: 'RestResponseMeta',
+          ...createResponseMeta(response),
+        };
+        return result;
+      }
+      // Only the body goes through the fieldNameNormalizer & gets the `type`
+      const envelope = {
+        __typename: 'RestResponse',
+        ...createResponseMeta(response),
+        data:
+          fieldNameNormalizer == null || !isObjectOrArray(data)
+            ? data
+            : convertObjectKeys(data, fieldNameNormalizer),
+      };
+      const possibleTypes = discriminate(envelope.data);
+      if (isObjectOrArray(envelope.data)) {
+        validate(
+          envelope.data,
+          bodySelectionSet,
+          [...fieldPath, 'data'],
+          possibleTypes,
+        );
+      }
+      insertNulls(envelope, possibleTypes);
+      if (isObjectOrArray(envelope.data)) {
+        envelope.data = trackFieldPaths(
+          fieldPaths,
+          addTypeNameToResult(envelope.data, type, rootTypePatcher),
+          [...fieldPath, 'data'],
+        );
+      }
+      addNestedTypes(envelope);
+      return trackFieldPaths(fieldPaths, addScalars(envelope), fieldPath);
+    };
+
+    let requestHeaders = headers;
+    // Names of the headers the directive replaces, including provided ones
+    const overridden: string[] = [];
+    if (perRequestHeaders != null) {
+      const directiveHeaders = interpolateHeaders(perRequestHeaders, {
+        ...variables,
+        ...argsWithExport,
+      });
+      if (headersMergePolicy == null) {
+        directiveHeaders.forEach((value, name) => overridden.push(name));
+      }
+      requestHeaders = (headersMergePolicy ||
+        makeOverrideHeadersMergePolicy(overridden))(headers, directiveHeaders);
+    }
+    // Provided headers are evaluated again for every attempt
+    const withProvidedHeaders = (attemptHeaders: Headers) =>
+      provideHeaders
+        ? provideHeaders(attemptHeaders, overridden)
+        : Promise.resolve(attemptHeaders);
+
+    // Every request gets its own copy of the headers, so serializers & interceptors can't leak changes
+    const request: RestLink.RequestParams = {
+      url: `${uri}${pathWithParams}`,
       method,
-      headers,
-      body: body && JSON.stringify(body),
-    })
-      .then(res => {
-        if (res.status >= 300) {
-          // Throw a JSError, that will be available under the
-          // "Network error" category in apollo-link-error
-          rethrowServerSideError(
-            res,
-            res.text(),
-            `Response not successful: Received status code ${res.status}`,
-          );
+      headers: concatHeadersMergePolicy(requestHeaders),
+      credentials,
+    };
+    if (body) {
+      const bodySerializer =
+        perRequestBodySerializer || linkLevelBodySerializer;
+      const serializer =
+        typeof bodySerializer === 'function'
+          ? bodySerializer
+          : bodySerializers[bodySerializer];
+      if (serializer == null) {
+        throw new Error(
+          `"${bodySerializer}" is not a known bodySerializer, add it to RestLink.bodySerializers!`,
+        );
+      }
+      const serialized = serializer(body, request.headers);
+      request.body = serialized.body;
+      request.headers = serialized.headers;
+    }
+
+    const transformer =
+      perRequestResponseTransformer || linkLevelResponseTransformer;
+
+    if (operationType === 'subscription' && root == null) {
+      // Root fields of a subscription are streamed: the first pass only collects
+      // the streams to open, later passes resolve one event each.
+      if (context.eventPayloads != null) {
+        const event = context.eventPayloads[resultKey];
+        if (event === undefined) {
+          return null;
         }
-        return res;
-      })
-      .then(res => res.json())
-      .then(
-        result =>
-          fieldNameNormalizer == null
-            ? result
-            : convertObjectKeys(result, fieldNameNormalizer),
-      )
-      .then(result =>
-        findRestDirectivesThenInsertNullsForOmittedFields(
-          resultKey,
-          result,
-          mainDefinition,
-          fragmentMap,
-          mainDefinition.selectionSet,
+        return await Promise.resolve(
+          transformer ? transformer(event.data, event.response) : event.data,
+        ).then(normalizeResult);
+      }
+      const { pollInterval } = directives.rest as RestLink.DirectiveOptions;
+      if (pollInterval == null && !request.headers.has('Accept')) {
+        request.headers.set('Accept', 'text/event-stream');
+      }
+      context.onEventStream({
+        resultKey,
+        endpoint: endpointKey,
+        request,
+        directiveOptions: directives.rest,
+        pollInterval,
+        withProvidedHeaders,
+      });
+      return null;
+    }
+
+    const requestTimeout =
+      perRequestTimeout != null ? perRequestTimeout : linkLevelTimeout;
+
+    const doFetch = httpCache
+      ? withHttpCache(customFetch || fetch, httpCache)
+      : customFetch || fetch;
+    const makeRequest = (request: RestLink.RequestParams) => (
+      operationSignal: any,
+    ) =>
+      withTokenRefresh(
+        () =>
+          withRetries(
+            () =>
+              withAbortAndTimeout(
+                signal =>
+                  withProvidedHeaders(request.headers).then(headers =>
+                    fetchWithInterceptors(
+                      doFetch,
+                      { ...request, headers, signal },
+                      directives.rest,
+                      requestInterceptors,
+                      responseInterceptors,
+                    ),
+                  ),
+                operationSignal,
+                requestTimeout,
+                request.url,
+              ).then(res =>
+                checkResponseStatus(res, request, endpointKey, fieldPath),
+              ),
+            method,
+            mergeRetryOptions(linkLevelRetry, perRequestRetry),
+            operationSignal,
+          ),
+        refreshToken,
+      );
+
+    // Identical GETs share one fetch, but every caller parses, normalizes & patches its own copy
+    const shouldDedupe = method === 'GET' && dedupe !== false;
+    const loadData = (
+      request: RestLink.RequestParams,
+    ): Promise<ParsedResponse> =>
+      (shouldDedupe
+        ? // Provided headers (e.g. each user's token) tell requests apart too
+          withProvidedHeaders(request.headers).then(headers =>
+            dedupeRequest(
+              inFlightRequests,
+              dedupeKey({ ...request, headers }),
+              context.signal,
+              makeRequest(request),
+            ),
+          )
+        : makeRequest(request)(context.signal)
+      ).then(res =>
+        parseResponseBody(res, responseType)
+          .then(data => (transformer ? transformer(data, res) : data))
+          .then(data => ({ data, response: res })),
+      );
+
+    if (batch) {
+      const key = argsWithExport[batch.key];
+      if (key == null) {
+        throw new Error(
+          'Missing params to run query, specify it in the query params or use an export directive: ' +
+            batch.key,
+        );
+      }
+      // Parents asking for the same batched request are loaded together, each then picks its own result
+      const batchRequest: RestLink.RequestParams = {
+        ...request,
+        url: appendQueryString(
+          `${uri}${interpolatePath(batch.path, argsWithExport)}`,
+          queryString,
         ),
-      )
-      .then(result => addTypeNameToResult(result, type, typePatcher));
-  } catch (error) {
+      };
+      return await loadBatched(
+        context.batches,
+        dedupeKey(batchRequest),
+        key,
+        keys =>
+          loadData({
+            ...batchRequest,
+            url: appendQueryString(
+              batchRequest.url,
+              buildQueryString(
+                { [batch.param || batch.key]: keys },
+                batch.arrayFormat || 'comma',
+                nameDenormalizer,
+              ),
+            ),
+          }),
+      ).then(({ data, response }) =>
+        normalizeResponse({
+          data: splitBatchResult(data, key, batch),
+          response,
+        }),
+      );
+    }
+
+    const firstPage = loadData(request);
+    return await (autoPaginate == null
+      ? firstPage
+      : firstPage.then(page =>
+          followNextLinks(
+            page,
+            request.url,
+            url => loadData({ ...request, url }),
+            autoPaginate,
+          ),
+        )
+    ).then(normalizeResponse);
+  } catch (sharedError) {
+    const error = withErrorPath(sharedError, fieldPath);
+    const reportAsGraphQLError =
+      error.name !== 'AbortError' &&
+      (errorPolicy === 'all' ||
+        (clientErrorsAsGraphQLErrors && isClientError(error)));
+    if (reportAsGraphQLError) {
+      context.errors.push(toGraphQLError(error, fieldPath));
+      return null;
+    }
     throw error;
   }
 };
 
+/** The result of an operation, with the errors & warnings collected while resolving it */
+const toFetchResult = (
+  data: any,
+  { errors, warnings }: RequestContext,
+): FetchResult => {
+  const result: FetchResult = { data };
+  if (errors.length > 0) {
+    result.errors = errors;
+  }
+  if (warnings.length > 0) {
+    result.extensions = { warnings };
+  }
+  return result;
+};
+
 /**
  * Default key to use when the @rest directive omits the "endpoint" parameter.
  */
@@ -752,11 +3489,28 @@ const DEFAULT_ENDPOINT_KEY = '';
 export class RestLink extends ApolloLink {
   private endpoints: RestLink.Endpoints;
   private headers: Headers;
+  private headersProvider: RestLink.HeadersProvider;
   private fieldNameNormalizer: RestLink.FieldNameNormalizer;
   private fieldNameDenormalizer: RestLink.FieldNameNormalizer;
   private typePatcher: RestLink.FunctionalTypePatcher;
+  private schemaTypes: SchemaTypeMap | null;
+  private scalars: RestLink.Scalars;
   private credentials: RequestCredentials;
   private customFetch: RestLink.CustomFetch;
+  private requestInterceptors: RestLink.RequestInterceptor[];
+  private responseInterceptors: RestLink.ResponseInterceptor[];
+  private responseTransformer: RestLink.ResponseTransformer;
+  private bodySerializer: RestLink.Serializer | string;
+  private bodySerializers: RestLink.Serializers;
+  private clientErrorsAsGraphQLErrors: boolean;
+  private errorPolicy: RestLink.ErrorPolicy;
+  private retry: RestLink.RetryOptions | boolean;
+  private timeout: number;
+  private strict: RestLink.ValidationMode;
+  private httpCache: RestLink.HttpCacheStorage;
+  private refreshToken: () => Promise<any>;
+  private allowedMethods: RestLink.AllowedMethods;
+  private inFlightRequests: { [key: string]: InFlightRequest };
 
   constructor({
     uri,
@@ -765,8 +3519,23 @@ export class RestLink extends ApolloLink {
     fieldNameNormalizer,
     fieldNameDenormalizer,
     typePatcher,
+    schema,
+    scalars,
     customFetch,
     credentials,
+    requestInterceptors,
+    responseInterceptors,
+    responseTransformer,
+    bodySerializer,
+    bodySerializers,
+    clientErrorsAsGraphQLErrors,
+    errorPolicy,
+    retry,
+    timeout,
+    strict,
+    httpCache,
+    refreshToken,
+    allowedMethods,
   }: RestLink.Options) {
     super();
     const fallback = {};
@@ -829,12 +3598,50 @@ export class RestLink extends ApolloLink {
         'RestLink was configured with a typePatcher of invalid type!',
       );
     }
+    this.schemaTypes = schema != null ? schemaToTypeMap(schema) : null;
+    if (this.schemaTypes != null) {
+      const types = this.schemaTypes;
+      const patchFromTable = this.typePatcher;
+      this.typePatcher = (data, outerType, patchDeeper) =>
+        patchTypesFromSchema(
+          patchFromTable(data, outerType, patchDeeper),
+          outerType,
+          types,
+        );
+    }
+    this.scalars = scalars || {};
 
     this.fieldNameNormalizer = fieldNameNormalizer || null;
     this.fieldNameDenormalizer = fieldNameDenormalizer || null;
-    this.headers = normalizeHeaders(headers);
+    if (typeof headers === 'function') {
+      this.headers = new Headers();
+      this.headersProvider = headers;
+    } else {
+      this.headers = normalizeHeaders(headers);
+      this.headersProvider = null;
+    }
     this.credentials = credentials || null;
     this.customFetch = customFetch;
+    this.requestInterceptors = requestInterceptors || [];
+    this.responseInterceptors = responseInterceptors || [];
+    this.responseTransformer = responseTransformer || null;
+    this.bodySerializer = bodySerializer || 'json';
+    this.bodySerializers = {
+      ...DEFAULT_BODY_SERIALIZERS,
+      ...bodySerializers,
+    };
+    this.clientErrorsAsGraphQLErrors = !!clientErrorsAsGraphQLErrors;
+    this.errorPolicy = errorPolicy || 'none';
+    this.retry = retry || false;
+    this.timeout = timeout || null;
+    this.strict = strict || null;
+    this.httpCache = resolveHttpCache(httpCache);
+    this.refreshToken = refreshToken ? sharePendingCall(refreshToken) : null;
+    this.allowedMethods = {
+      ...DEFAULT_ALLOWED_METHODS,
+      ...allowedMethods,
+    };
+    this.inFlightRequests = {};
   }
 
   public request(
@@ -865,10 +3672,28 @@ export class RestLink extends ApolloLink {
     }
 
     const headers = headersMergePolicy(this.headers, context.headers);
+    const { headersProvider } = this;
+    const provideHeaders =
+      headersProvider == null
+        ? null
+        : (requestHeaders: Headers, overriddenHeaders: string[]) =>
+            Promise.resolve(
+              headersProvider(operation),
+            ).then(providedHeaders => {
+              // A copy, the provider may hand out the same Headers every time
+              const linkHeaders = concatHeadersMergePolicy(
+                normalizeHeaders(providedHeaders),
+              );
+              overriddenHeaders.forEach(name => linkHeaders.delete(name));
+              return headersMergePolicy(linkHeaders, requestHeaders);
+            });
 
     const credentials: RequestCredentials =
       context.credentials || this.credentials;
 
+    const errorPolicy: RestLink.ErrorPolicy =
+      context.errorPolicy || this.errorPolicy;
+
     const queryWithTypename = addTypenameToDocument(query);
 
     const mainDefinition = getMainDefinition(query);
@@ -879,30 +3704,68 @@ export class RestLink extends ApolloLink {
 
     const requestContext: RequestContext = {
       headers,
+      headersMergePolicy: context.headersMergePolicy,
+      provideHeaders,
+      variables: variables || {},
       endpoints: this.endpoints,
       // Provide an empty hash for this request's exports to be stuffed into
       exportVariables: {},
+      fieldPaths: new WeakMap(),
+      errors: [],
+      warnings: [],
       credentials,
       customFetch: this.customFetch,
+      requestInterceptors: this.requestInterceptors,
+      responseInterceptors: this.responseInterceptors,
+      responseTransformer: this.responseTransformer,
+      bodySerializer: this.bodySerializer,
+      bodySerializers: this.bodySerializers,
+      clientErrorsAsGraphQLErrors: this.clientErrorsAsGraphQLErrors,
+      errorPolicy,
+      retry: this.retry,
+      timeout: this.timeout,
+      strict: this.strict,
+      httpCache: this.httpCache,
+      refreshToken: this.refreshToken,
+      allowedMethods: this.allowedMethods,
+      batches: {},
+      inFlightRequests: this.inFlightRequests,
       operationType,
       fieldNameNormalizer: this.fieldNameNormalizer,
       fieldNameDenormalizer: this.fieldNameDenormalizer,
       mainDefinition,
       fragmentDefinitions,
       typePatcher: this.typePatcher,
+      schemaTypes: this.schemaTypes,
+      scalars: this.scalars,
     };
     const resolverOptions = {};
+    if (operationType === 'subscription') {
+      return this.subscribe(
+        queryWithTypename,
+        variables,
+        requestContext,
+        resolverOptions,
+      );
+    }
     return new Observable(observer => {
+      // Aborts any requests still in flight when unsubscribed from
+      const controller =
+        typeof AbortController !== 'undefined' ? new AbortController() : null;
+      const operationContext: RequestContext = {
+        ...requestContext,
+        signal: controller && controller.signal,
+      };
       graphql(
         resolver,
         queryWithTypename,
         null,
-        requestContext,
+        operationContext,
         variables,
         resolverOptions,
       )
         .then(data => {
-          observer.next({ data });
+          observer.next(toFetchResult(data, operationContext));
           observer.complete();
         })
         .catch(err => {
@@ -912,6 +3775,174 @@ export class RestLink extends ApolloLink {
           }
           observer.error(err);
         });
+
+      return () => {
+        if (controller) {
+          controller.abort();
+        }
+      };
+    });
+  }
+
+  /**
+   * Subscriptions resolve once to discover the event streams of their root @rest fields,
+   * then resolve once more per received event (or poll), emitting each result as its own `next()`
+   */
+  private subscribe(
+    query: DocumentNode,
+    variables: Record<string, any>,
+    requestContext: RequestContext,
+    resolverOptions: object,
+  ): Observable<FetchResult> {
+    return new Observable(observer => {
+      const controller =
+        typeof AbortController !== 'undefined' ? new AbortController() : null;
+      requestContext = {
+        ...requestContext,
+        signal: controller && controller.signal,
+      };
+      const streams: EventStreamRequest[] = [];
+      const closers: (() => void)[] = [];
+      let openStreams = 0;
+      let closed = false;
+      // Events are resolved one at a time so they're emitted in the order they arrived
+      let queue: Promise<void> = Promise.resolve();
+      // Polled fields only emit when their result differs from the previous one
+      const lastPolledResults: { [resultKey: string]: string } = {};
+
+      const fail = err => {
+        if (!closed && err.name !== 'AbortError') {
+          closed = true;
+          observer.error(err);
+        }
+      };
+      const resolveEvent = (
+        resultKey: string,
+        payload: ParsedResponse,
+        onlyIfChanged: boolean,
+      ) => {
+        const eventContext: RequestContext = {
+          ...requestContext,
+          exportVariables: {},
+          fieldPaths: new WeakMap(),
+          errors: [],
+          warnings: [],
+          eventPayloads: { [resultKey]: payload },
+        };
+        queue = queue
+          .then(() =>
+            graphql(
+              resolver,
+              query,
+              null,
+              eventContext,
+              variables,
+              resolverOptions,
+            ),
+          )
+          .then(data => {
+            if (onlyIfChanged) {
+              const serialized = JSON.stringify(data);
+              if (lastPolledResults[resultKey] === serialized) {
+                return;
+              }
+              lastPolledResults[resultKey] = serialized;
+            }
+            if (!closed) {
+              observer.next(toFetchResult(data, eventContext));
+            }
+          })
+          .catch(fail);
+      };
+      const streamEnded = () => {
+        openStreams -= 1;
+        if (openStreams === 0) {
+          queue.then(() => {
+            if (!closed) {
+              closed = true;
+              observer.complete();
+            }
+          });
+        }
+      };
+
+      graphql(
+        resolver,
+        query,
+        null,
+        { ...requestContext, onEventStream: stream => streams.push(stream) },
+        variables,
+        resolverOptions,
+      )
+        .then(() => {
+          if (closed) {
+            return;
+          }
+          openStreams = streams.length;
+          if (openStreams === 0) {
+            closed = true;
+            observer.complete();
+            return;
+          }
+          streams.forEach(
+            ({
+              resultKey,
+              endpoint,
+              request,
+              directiveOptions,
+              pollInterval,
+              withProvidedHeaders,
+            }) => {
+              const doRequest = () =>
+                withAbortAndTimeout(
+                  signal =>
+                    withProvidedHeaders(request.headers).then(headers =>
+                      fetchWithInterceptors(
+                        requestContext.customFetch || fetch,
+                        { ...request, headers, signal },
+                        directiveOptions,
+                        requestContext.requestInterceptors,
+                        requestContext.responseInterceptors,
+                      ),
+                    ),
+                  requestContext.signal,
+                  directiveOptions.timeout != null
+                    ? directiveOptions.timeout
+                    : requestContext.timeout,
+                  request.url,
+                ).then(res =>
+                  checkResponseStatus(res, request, endpoint, [resultKey]),
+                );
+              closers.push(
+                pollInterval == null
+                  ? openEventStream(
+                      doRequest,
+                      (data, response) =>
+                        resolveEvent(resultKey, { data, response }, false),
+                      fail,
+                      streamEnded,
+                    )
+                  : openPollingStream(
+                      doRequest,
+                      pollInterval,
+                      directiveOptions.responseType,
+                      (data, response) =>
+                        resolveEvent(resultKey, { data, response }, true),
+                      fail,
+                    ),
+              );
+            },
+          );
+        })
+        .catch(fail);
+
+      return () => {
+        closed = true;
+        closers.forEach(close => close());
+        if (controller) {
+          controller.abort();
+        }
+      };
     });
   }
 }